@@ -0,0 +1,240 @@
+import { ParsedCommit } from "./commit.ts";
+import { Configuration } from "./configuration.ts";
+import { DEFAULT_LINT_IGNORES } from "./lint.ts";
+import { Template } from "./template.ts";
+
+/**
+ * Regular expression to match the heading of a release section in a
+ * Markdown changelog.
+ */
+const RELEASE_HEADING_REGEX = /^## .*$/m;
+
+/**
+ * Template of the heading of a release section.
+ */
+const RELEASE_HEADING_TEMPLATE = new Template("## {version} ({date})");
+
+/**
+ * Template of the heading of a commit type section.
+ */
+const SECTION_HEADING_TEMPLATE = new Template("### {title}");
+
+/**
+ * Template of a changelog entry.
+ */
+const ENTRY_TEMPLATE = new Template(
+  "- {emoji} {?breaking}**BREAKING** {/breaking}{?scope}**{scope}:** {/scope}{subject}",
+);
+
+/**
+ * Output formats supported by {@link renderChangelog}.
+ */
+export type ChangelogFormat = "markdown" | "json";
+
+/**
+ * Represents a single change in a changelog.
+ */
+export interface ChangelogEntry {
+  /** Emoji character of the commit type or alias. @example "✨" */
+  emoji: string;
+  /** Scope of the change, if any. @example "api" */
+  scope: string | null;
+  /** Description of the change. @example "add pagination" */
+  subject: string;
+  /** Whether the change is a breaking change. */
+  breaking: boolean;
+  /** Header of the commit that introduced the change. */
+  header: string;
+}
+
+/**
+ * Represents the changes of a single commit type in a changelog.
+ */
+export interface ChangelogSection {
+  /** Name of the commit type. @example "feat" */
+  type: string;
+  /** Display title of the commit type. @example "Features" */
+  title: string;
+  /** Position of the commit type in the configured order. */
+  index: number;
+  /** Changes of the commit type, in the order the commits were given. */
+  entries: ChangelogEntry[];
+}
+
+/**
+ * Represents the changes of a single release in a changelog.
+ */
+export interface ChangelogRelease {
+  /** Version of the release. @example "1.2.0" */
+  version: string;
+  /** Date of the release, formatted as `YYYY-MM-DD`. */
+  date: string;
+  /** Sections of the release, sorted by the configured order. */
+  sections: ChangelogSection[];
+}
+
+/**
+ * Options for {@link createChangelogRelease}.
+ */
+export interface ChangelogReleaseOptions {
+  /** Version of the release. */
+  version: string;
+  /** Date of the release. Defaults to the current date. */
+  date?: Date;
+  /**
+   * Patterns of the headers left out of the release. Defaults to
+   * {@link DEFAULT_LINT_IGNORES}, the headers of the commits written by git.
+   */
+  ignores?: readonly RegExp[];
+}
+
+/**
+ * Groups parsed commits into the sections of a changelog release.
+ *
+ * Sections are titled by the commit type `title` and sorted by the configured
+ * `order`. Commits whose commit type or alias has `changelog` set to `false`
+ * are left out, as well as the commits written by git, like merges and
+ * reverts, and sections without entries.
+ *
+ * @param commits - Parsed commits included in the release.
+ * @param config - Configuration the commits were parsed with.
+ * @param options - Version and date of the release.
+ * @returns The changelog release.
+ *
+ * @example
+ *
+ * ```ts
+ * import { createChangelogRelease } from "./changelog.ts";
+ * import { parseCommit } from "./commit.ts";
+ * import { Configuration } from "./configuration.ts";
+ *
+ * const config = Configuration.fromFile("path/to/config.json");
+ * const commits = ["✨ feat(api): add pagination", "🐛 fix: handle empty input"]
+ *   .map((message) => parseCommit(message, config));
+ * const release = createChangelogRelease(commits, config, { version: "1.2.0" });
+ *
+ * console.assert(release.sections[0].title === "Features");
+ * ```
+ */
+export function createChangelogRelease(
+  commits: ParsedCommit[],
+  config: Configuration,
+  options: ChangelogReleaseOptions,
+): ChangelogRelease {
+  const sections: Record<string, ChangelogSection> = {};
+  const { ignores = DEFAULT_LINT_IGNORES } = options;
+
+  for (const commit of commits) {
+    const { commitType, alias } = commit;
+    const changelog = alias !== null ? alias.changelog : commitType.changelog;
+
+    if (!changelog) continue;
+    if (ignores.some((pattern) => pattern.test(commit.header))) continue;
+
+    if (!(commitType.type in sections)) {
+      sections[commitType.type] = {
+        type: commitType.type,
+        title: commitType.title,
+        index: config.order.indexOf(commitType.type),
+        entries: [],
+      };
+    }
+
+    sections[commitType.type].entries.push({
+      emoji: (alias || commitType).emoji.character,
+      scope: commit.scope,
+      subject: commit.subject,
+      breaking: commit.breaking,
+      header: commit.header,
+    });
+  }
+
+  return {
+    version: options.version,
+    date: (options.date || new Date()).toISOString().slice(0, 10),
+    sections: Object.values(sections).sort((a, b) => a.index - b.index),
+  };
+}
+
+function renderMarkdown(release: ChangelogRelease) {
+  const { version, date } = release;
+  const lines = [RELEASE_HEADING_TEMPLATE.render({ version, date })];
+
+  for (const section of release.sections) {
+    const heading = SECTION_HEADING_TEMPLATE.render({ title: section.title });
+
+    lines.push("", heading, "");
+
+    for (const entry of section.entries) {
+      lines.push(ENTRY_TEMPLATE.render({ ...entry }));
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Renders a changelog release in the given format.
+ *
+ * @param release - The changelog release.
+ * @param format - The output format. Defaults to `markdown`.
+ * @returns The rendered changelog release.
+ */
+export function renderChangelog(
+  release: ChangelogRelease,
+  format: ChangelogFormat = "markdown",
+) {
+  if (format === "json") {
+    return JSON.stringify(release, null, 2) + "\n";
+  }
+
+  return renderMarkdown(release);
+}
+
+/**
+ * Prepends a release section to an existing Markdown changelog.
+ *
+ * The section is inserted before the first release heading (`## ...`), so any
+ * preamble like the changelog title is kept at the top. Older release
+ * sections are left untouched.
+ *
+ * @param changelog - Contents of the existing changelog.
+ * @param section - The rendered Markdown release section.
+ * @returns The new contents of the changelog.
+ * @throws {Error} If the changelog already has a section with the same heading.
+ *
+ * @example
+ *
+ * ```ts
+ * import { prependChangelogRelease } from "./changelog.ts";
+ *
+ * const changelog = "# Changelog\n\n## 1.0.0 (2023-01-01)\n";
+ * const result = prependChangelogRelease(changelog, "## 1.1.0 (2023-02-01)\n");
+ *
+ * console.assert(
+ *   result === "# Changelog\n\n## 1.1.0 (2023-02-01)\n\n## 1.0.0 (2023-01-01)\n",
+ * );
+ * ```
+ */
+export function prependChangelogRelease(changelog: string, section: string) {
+  const [heading] = section.trim().split("\n", 1);
+  const headings = changelog.split("\n").map((line) => line.trim());
+
+  if (headings.includes(heading)) {
+    throw new Error("The changelog already has a section for this release.", {
+      cause: { heading },
+    });
+  }
+
+  const block = section.trim() + "\n";
+  const match = RELEASE_HEADING_REGEX.exec(changelog);
+
+  if (match === null) {
+    const preamble = changelog.trimEnd();
+
+    return preamble ? `${preamble}\n\n${block}` : block;
+  }
+
+  return changelog.slice(0, match.index) + block + "\n" +
+    changelog.slice(match.index);
+}
@@ -0,0 +1,541 @@
+import { parse } from "https://deno.land/std@0.208.0/flags/mod.ts";
+import { resolve } from "https://deno.land/std@0.208.0/path/mod.ts";
+import { createChangelogRelease, renderChangelog } from "./changelog.ts";
+import {
+  composeCommit,
+  renderCommitDraft,
+  writeCommitMessage,
+} from "./composer.ts";
+import { Configuration, ConfigurationError } from "./configuration.ts";
+import { getLatestTag, readCommits } from "./git.ts";
+import { installHooks, prefillCommitMessage } from "./hooks.ts";
+import { lintCommit } from "./lint.ts";
+import { Template } from "./template.ts";
+import { getNextVersion } from "./version.ts";
+
+/**
+ * Usage instructions printed by `--help` and on usage errors.
+ */
+const USAGE = `Usage: conventional-gitmoji <command> [options]
+
+Commands:
+  lint [file]               Lint a commit message read from a file or stdin.
+  next-version [current]    Compute the next version from the commits since
+                            the latest tag. Defaults to the latest tag.
+  changelog [version]       Render the changelog of the commits since the
+                            latest tag. Defaults to the next version.
+  types                     List the commit types and aliases, in order.
+  compose [file]            Write a commit message step by step, to a file
+                            like the one of the prepare-commit-msg hook, or
+                            to stdout.
+  config validate           Check that the configuration is valid.
+  hooks install             Install the commit-msg and prepare-commit-msg
+                            hooks, without overwriting existing hooks.
+  prefill <file> [source]   Prefill a commit message file with the commit
+                            type inferred from the branch or staged files.
+
+Options:
+  --config <path>           Configuration file to use instead of looking for
+                            one. It can extend presets and other files.
+  --format <json|text>      Output format. Defaults to text.
+  --range <range>           Range of commits read by next-version and
+                            changelog, like "v1.2.0..HEAD".
+  -h, --help                Show this help.
+
+Environment:
+  CONVENTIONAL_GITMOJI_FALLBACK  Fallback commit type, over the configuration.
+  CONVENTIONAL_GITMOJI_ORDER     Comma-separated order of the commit types,
+                                 over the configuration.
+`;
+
+/**
+ * Template of a lint diagnostic in the text output.
+ */
+const DIAGNOSTIC_TEMPLATE = new Template("{severity}: {message} [{rule}]");
+
+/**
+ * Template of a commit type in the text output of the `types` command.
+ */
+const TYPE_TEMPLATE = new Template(
+  "{emoji} {name}{?semver} ({semver}){/semver}: {description}",
+);
+
+/**
+ * Template of a commit alias in the text output of the `types` command.
+ */
+const ALIAS_TEMPLATE = new Template(
+  "  {emoji} {name} -> {type}{?semver} ({semver}){/semver}: {description}",
+);
+
+/**
+ * Template of a hook in the text output of the `hooks install` command.
+ */
+const HOOK_TEMPLATE = new Template("{status} {name}: {path}");
+
+/**
+ * Exit codes of the command-line tool.
+ *
+ * - `success`: The command ran and found no problems.
+ * - `failure`: The command found problems, like lint errors or an invalid
+ *   configuration, or it couldn't run, like when `git` fails.
+ * - `usage`: The command or its options aren't valid.
+ */
+export const EXIT_CODES = { success: 0, failure: 1, usage: 2 } as const;
+
+/**
+ * Output formats supported by every command.
+ */
+export type CliFormat = "text" | "json";
+
+/**
+ * Input and output of the command-line tool, so it can run without a
+ * terminal.
+ */
+export interface CliIO {
+  /** Directory the command runs in. */
+  cwd: string;
+  /**
+   * Environment variables that override the configuration, like
+   * `CONVENTIONAL_GITMOJI_ORDER`. Defaults to the ones of the process.
+   */
+  env?: Record<string, string>;
+  /** Reads the whole standard input. */
+  readStdin(): string;
+  /** Asks for a line of input. Returns `null` when there's no more input. */
+  prompt(message: string): string | null;
+  /** Writes text to the standard output. */
+  stdout(text: string): void;
+  /** Writes text to the standard error. */
+  stderr(text: string): void;
+}
+
+interface CliContext {
+  /** Positional arguments, after the command name. */
+  args: string[];
+  /** Path of the `--config` option, if given. */
+  config: string | null;
+  /** Value of the `--format` option. */
+  format: CliFormat;
+  /** Value of the `--range` option, if given. */
+  range: string | undefined;
+  /** Input and output of the command. */
+  io: CliIO;
+}
+
+interface CliCommand {
+  run(context: CliContext): number;
+}
+
+/**
+ * Error thrown when the command or its options aren't valid.
+ */
+class UsageError extends Error {
+  override name = "UsageError";
+}
+
+function writeAll(
+  writer: { writeSync(data: Uint8Array): number },
+  text: string,
+) {
+  let data = new TextEncoder().encode(text);
+
+  while (data.length > 0) {
+    data = data.subarray(writer.writeSync(data));
+  }
+}
+
+function readAll(reader: { readSync(data: Uint8Array): number | null }) {
+  const decoder = new TextDecoder();
+  const buffer = new Uint8Array(4096);
+  let text = "";
+  let read: number | null;
+
+  while ((read = reader.readSync(buffer)) !== null) {
+    text += decoder.decode(buffer.subarray(0, read), { stream: true });
+  }
+
+  return text + decoder.decode();
+}
+
+function readLine(reader: { readSync(data: Uint8Array): number | null }) {
+  const buffer = new Uint8Array(1);
+  const bytes: number[] = [];
+  const decode = () =>
+    new TextDecoder().decode(new Uint8Array(bytes)).replace(/\r$/, "");
+
+  while (true) {
+    if (reader.readSync(buffer) === null) {
+      return bytes.length > 0 ? decode() : null;
+    }
+
+    if (buffer[0] === 0x0a) return decode();
+
+    bytes.push(buffer[0]);
+  }
+}
+
+function createProcessIO(): CliIO {
+  return {
+    cwd: Deno.cwd(),
+    readStdin: () => readAll(Deno.stdin),
+    prompt: (message) => {
+      writeAll(Deno.stderr, message + " ");
+
+      return readLine(Deno.stdin);
+    },
+    stdout: (text) => writeAll(Deno.stdout, text),
+    stderr: (text) => writeAll(Deno.stderr, text),
+  };
+}
+
+function toJson(value: unknown) {
+  return JSON.stringify(value, null, 2) + "\n";
+}
+
+function loadConfiguration({ config, io }: CliContext) {
+  return Configuration.discover(io.cwd, { path: config, env: io.env });
+}
+
+function readRangeCommits(context: CliContext, config: Configuration) {
+  return readCommits(config, { cwd: context.io.cwd, range: context.range });
+}
+
+const lint: CliCommand = {
+  run(context) {
+    const config = loadConfiguration(context);
+    const [path] = context.args;
+    const message = path === undefined
+      ? context.io.readStdin()
+      : Deno.readTextFileSync(resolve(context.io.cwd, path));
+    const result = lintCommit(message, config);
+
+    if (context.format === "json") {
+      context.io.stdout(toJson(result));
+    } else {
+      for (const diagnostic of result.diagnostics) {
+        context.io.stdout(DIAGNOSTIC_TEMPLATE.render({ ...diagnostic }) + "\n");
+      }
+    }
+
+    return result.valid ? EXIT_CODES.success : EXIT_CODES.failure;
+  },
+};
+
+const nextVersion: CliCommand = {
+  run(context) {
+    const config = loadConfiguration(context);
+    const current = context.args[0] || getLatestTag(context.io.cwd) ||
+      "0.0.0";
+    const messages = readRangeCommits(context, config).map((c) => c.message);
+    const result = getNextVersion(messages, current, config);
+
+    context.io.stdout(
+      context.format === "json" ? toJson(result) : result.next + "\n",
+    );
+
+    return EXIT_CODES.success;
+  },
+};
+
+const changelog: CliCommand = {
+  run(context) {
+    const config = loadConfiguration(context);
+    const commits = readRangeCommits(context, config);
+    const version = context.args[0] ||
+      getNextVersion(
+        commits.map((c) => c.message),
+        getLatestTag(context.io.cwd) || "0.0.0",
+        config,
+      ).next;
+    const release = createChangelogRelease(
+      commits.map((c) => c.commit),
+      config,
+      { version },
+    );
+
+    context.io.stdout(
+      renderChangelog(release, context.format === "json" ? "json" : "markdown"),
+    );
+
+    return EXIT_CODES.success;
+  },
+};
+
+const types: CliCommand = {
+  run(context) {
+    const config = loadConfiguration(context);
+    const aliases = Object.values(config.aliases);
+    const entries = [];
+    const lines = [];
+
+    for (const name of config.order) {
+      const type = config.types[name];
+
+      entries.push({
+        kind: "type",
+        name,
+        type: name,
+        emoji: type.emoji,
+        semver: type.semver,
+        description: type.description,
+      });
+      lines.push(TYPE_TEMPLATE.render({
+        emoji: type.emoji.character,
+        name,
+        semver: type.semver,
+        description: type.description,
+      }));
+
+      for (const alias of aliases.filter((alias) => alias.type === name)) {
+        entries.push({
+          kind: "alias",
+          name: alias.name,
+          type: name,
+          emoji: alias.emoji,
+          semver: alias.semver,
+          description: alias.description,
+        });
+        lines.push(ALIAS_TEMPLATE.render({
+          emoji: alias.emoji.character,
+          name: alias.name,
+          type: name,
+          semver: alias.semver,
+          description: alias.description,
+        }));
+      }
+    }
+
+    context.io.stdout(
+      context.format === "json" ? toJson(entries) : lines.join("\n") + "\n",
+    );
+
+    return EXIT_CODES.success;
+  },
+};
+
+const compose: CliCommand = {
+  run(context) {
+    const config = loadConfiguration(context);
+    const [path] = context.args;
+    const { prompt, stderr } = context.io;
+    const draft = composeCommit(config, { prompt, write: stderr });
+
+    if (draft === null) {
+      stderr("The commit message was not finished.\n");
+
+      return EXIT_CODES.failure;
+    }
+
+    const message = renderCommitDraft(draft, config);
+
+    if (context.format === "json") {
+      context.io.stdout(toJson({ ...draft, message }));
+    } else if (path === undefined) {
+      context.io.stdout(message + "\n");
+    }
+
+    if (path !== undefined) {
+      writeCommitMessage(resolve(context.io.cwd, path), message);
+    }
+
+    return EXIT_CODES.success;
+  },
+};
+
+const configuration: CliCommand = {
+  run(context) {
+    const [action] = context.args;
+
+    if (action !== "validate") {
+      throw new UsageError(`Unknown config command "${action || ""}".`);
+    }
+
+    try {
+      loadConfiguration(context);
+    } catch (error) {
+      if (!(error instanceof ConfigurationError)) throw error;
+
+      context.io.stdout(
+        context.format === "json"
+          ? toJson({ valid: false, problems: error.problems })
+          : error.format() + "\n",
+      );
+
+      return EXIT_CODES.failure;
+    }
+
+    context.io.stdout(
+      context.format === "json"
+        ? toJson({ valid: true, problems: [] })
+        : "The configuration is valid.\n",
+    );
+
+    return EXIT_CODES.success;
+  },
+};
+
+const hooks: CliCommand = {
+  run(context) {
+    const [action] = context.args;
+
+    if (action !== "install") {
+      throw new UsageError(`Unknown hooks command "${action || ""}".`);
+    }
+
+    const installations = installHooks({ cwd: context.io.cwd });
+    const skipped = installations.filter((h) => h.status === "skipped");
+
+    context.io.stdout(
+      context.format === "json"
+        ? toJson(installations)
+        : installations.map((h) => HOOK_TEMPLATE.render({ ...h })).join("\n") +
+          "\n",
+    );
+
+    for (const { name } of skipped) {
+      context.io.stderr(
+        `The ${name} hook already exists. Call "conventional-gitmoji ` +
+          `${name === "commit-msg" ? "lint" : "prefill"}" from it instead.\n`,
+      );
+    }
+
+    return skipped.length > 0 ? EXIT_CODES.failure : EXIT_CODES.success;
+  },
+};
+
+const prefill: CliCommand = {
+  run(context) {
+    const [path, source] = context.args;
+
+    if (path === undefined) {
+      throw new UsageError("Missing commit message file.");
+    }
+
+    const config = loadConfiguration(context);
+    const type = prefillCommitMessage(resolve(context.io.cwd, path), config, {
+      cwd: context.io.cwd,
+      source,
+    });
+
+    if (context.format === "json") context.io.stdout(toJson({ type }));
+
+    return EXIT_CODES.success;
+  },
+};
+
+/**
+ * Commands of the command-line tool, keyed by name.
+ */
+const COMMANDS: Record<string, CliCommand> = {
+  lint,
+  "next-version": nextVersion,
+  changelog,
+  types,
+  compose,
+  config: configuration,
+  hooks,
+  prefill,
+};
+
+function parseArguments(args: string[], io: CliIO) {
+  const flags = parse(args, {
+    string: ["config", "format", "range"],
+    boolean: ["help"],
+    alias: { h: "help" },
+  });
+  const known = ["_", "config", "format", "range", "help", "h"];
+  const unknown = Object.keys(flags).find((key) => !known.includes(key));
+
+  if (unknown !== undefined) {
+    throw new UsageError(`Unknown option "${unknown}".`);
+  }
+
+  const format = flags.format || "text";
+
+  if (format !== "text" && format !== "json") {
+    throw new UsageError(`Unknown format "${format}". Expected json or text.`);
+  }
+
+  const [command, ...rest] = flags._.map(String);
+  const context: CliContext = {
+    args: rest,
+    config: flags.config || null,
+    format,
+    range: flags.range || undefined,
+    io,
+  };
+
+  return { command, help: flags.help, context };
+}
+
+/**
+ * Runs the command-line tool.
+ *
+ * Every command loads the configuration that applies to the working
+ * directory, or the one given with `--config`, and prints its result in the
+ * format given with `--format`. Problems are printed to the standard error,
+ * except for the ones that are the result of the command, like lint
+ * diagnostics.
+ *
+ * @param args - Command-line arguments, without the executable.
+ * @param io - Optional input and output. Defaults to the ones of the process.
+ * @returns The exit code. See {@link EXIT_CODES}.
+ *
+ * @example
+ *
+ * ```ts
+ * import { runCli } from "./cli.ts";
+ *
+ * const output: string[] = [];
+ * const code = runCli(["types", "--format", "json"], {
+ *   cwd: "path/to/repository",
+ *   readStdin: () => "",
+ *   prompt: () => null,
+ *   stdout: (text) => output.push(text),
+ *   stderr: (text) => output.push(text),
+ * });
+ *
+ * console.assert(code === 0);
+ * ```
+ */
+export function runCli(args: string[], io = createProcessIO()): number {
+  try {
+    const { command, help, context } = parseArguments(args, io);
+
+    if (help || command === "help") {
+      io.stdout(USAGE);
+
+      return EXIT_CODES.success;
+    }
+
+    if (command === undefined || !Object.hasOwn(COMMANDS, command)) {
+      throw new UsageError(
+        command === undefined
+          ? "Missing command."
+          : `Unknown command "${command}".`,
+      );
+    }
+
+    return COMMANDS[command].run(context);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      io.stderr(`${error.message}\n\n${USAGE}`);
+
+      return EXIT_CODES.usage;
+    }
+
+    if (error instanceof ConfigurationError) {
+      io.stderr(error.format() + "\n");
+
+      return EXIT_CODES.failure;
+    }
+
+    io.stderr(`${error instanceof Error ? error.message : error}\n`);
+
+    return EXIT_CODES.failure;
+  }
+}
+
+if (import.meta.main) {
+  Deno.exit(runCli(Deno.args));
+}
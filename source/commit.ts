@@ -0,0 +1,508 @@
+import { CommitAlias, Configuration, ResolutionKind } from "./configuration.ts";
+import { EMOJI_CHAR_REGEX, EMOJI_CODE_REGEX } from "./emoji.ts";
+import { Template } from "./template.ts";
+
+/**
+ * Regular expression to match the conventional part of a commit header,
+ * like `feat(api)!: subject`.
+ */
+const CONVENTIONAL_HEADER_REGEX =
+  /^(?<type>[\w-]+)(?:\((?<scope>[^()\r\n]*)\))?(?<breaking>!)?:[ \t]*(?<subject>.*?)\s*$/d;
+
+/**
+ * Regular expression to match the first line of a commit footer, like
+ * `Refs: #123`, `Closes #42` or `BREAKING CHANGE: drop support for Node 16`.
+ */
+const FOOTER_REGEX =
+  /^(?<token>BREAKING[ -]CHANGE|[\w-]+)(?<separator>:[ \t]|[ \t]#)(?<value>.*)$/;
+
+/**
+ * Footer tokens that flag a commit as a breaking change.
+ */
+const BREAKING_CHANGE_TOKENS = ["BREAKING CHANGE", "BREAKING-CHANGE"];
+
+/**
+ * Line git writes above the diff of `git commit --verbose`. Nothing from this
+ * line on is part of the commit message.
+ */
+const SCISSORS_LINE = "# ------------------------ >8 ------------------------";
+
+/**
+ * Header template used by {@link formatCommit} by default.
+ */
+export const DEFAULT_HEADER_TEMPLATE =
+  "{?emoji}{emoji} {/emoji}{type}{?scope}({scope}){/scope}{?breaking}!{/breaking}: {subject}";
+
+/**
+ * Regular expression to match lines that must not be joined when wrapping a
+ * body paragraph: list items, indented code and quotes.
+ */
+const PRESERVED_LINE_REGEX = /^(?:\s|[-*+>] |\d+[.)] )/;
+
+/**
+ * Represents a footer (or trailer) of a commit message.
+ */
+export interface CommitFooter {
+  /** Footer token. @example "Refs" */
+  token: string;
+  /** Footer value, which can span multiple lines. @example "#123" */
+  value: string;
+  /**
+   * How the token is separated from the value: `: ` like in `Refs: #123`, or
+   * ` #` like in `Closes #123`. Defaults to `: `.
+   */
+  separator?: ": " | " #";
+}
+
+/**
+ * Location of a header part, as a `[start, end)` pair of character offsets
+ * relative to the beginning of the commit header.
+ */
+export type CommitSpan = [start: number, end: number];
+
+/**
+ * How the commit type of a parsed commit was resolved.
+ *
+ * - `type`: The header type is the name of a commit type.
+ * - `alias`: The header type is the name of a commit alias.
+ * - `type-emoji`: The header emoji belongs to a commit type.
+ * - `alias-emoji`: The header emoji belongs to a commit alias.
+ * - `fallback`: Nothing matched, so the configured fallback type was used.
+ */
+export type CommitResolution = ResolutionKind | "fallback";
+
+/**
+ * Represents a commit message split into its parts and resolved against a
+ * {@link Configuration}.
+ */
+export interface ParsedCommit {
+  /** The raw commit message, without comment lines. */
+  raw: string;
+  /** First line of the commit message. */
+  header: string;
+  /** Emoji code or character written in the header, if any. @example "✨" */
+  emoji: string | null;
+  /** Type or alias name written in the header, if any. @example "feat" */
+  type: string | null;
+  /** Scope written in the header, if any. @example "api" */
+  scope: string | null;
+  /** Description of the change. @example "add pagination" */
+  subject: string;
+  /** Free-form body of the commit message, if any. */
+  body: string | null;
+  /** Footers of the commit message. */
+  footers: CommitFooter[];
+  /** Whether the header has a `!` or there's a breaking change footer. */
+  breaking: boolean;
+  /** The commit type this commit resolves to. */
+  commitType: Configuration["types"][string];
+  /** The commit alias this commit resolves to, if any. */
+  alias: CommitAlias | null;
+  /** How {@link ParsedCommit.commitType} was resolved. */
+  resolution: CommitResolution;
+  /** Location of each header part found in the commit message. */
+  spans: Partial<Record<"emoji" | "type" | "scope" | "subject", CommitSpan>>;
+}
+
+/**
+ * Parses a raw commit message and resolves its type against the given
+ * configuration.
+ *
+ * The header can be written in any of these forms:
+ *
+ * - `✨ feat(api)!: subject`
+ * - `:sparkles: feat: subject`
+ * - `feat: subject`
+ * - `✨ subject`
+ *
+ * The commit type is resolved by type name first, then by alias name and
+ * finally by emoji. When nothing matches, the configured `fallback` type is
+ * used. Lines starting with `#` are treated as comments and ignored, and so is
+ * everything after the scissors line of `git commit --verbose`.
+ *
+ * @param message - The raw commit message.
+ * @param config - Configuration used to resolve the commit type.
+ * @returns The parsed commit.
+ *
+ * @example
+ *
+ * ```ts
+ * import { Configuration } from "./configuration.ts";
+ * import { parseCommit } from "./commit.ts";
+ *
+ * const config = Configuration.fromFile("path/to/config.json");
+ * const commit = parseCommit("✨ feat(api)!: add pagination", config);
+ *
+ * console.assert(commit.commitType.type === "feat");
+ * console.assert(commit.scope === "api");
+ * console.assert(commit.breaking);
+ * ```
+ */
+export function parseCommit(
+  message: string,
+  config: Configuration,
+): ParsedCommit {
+  const raw = stripComments(message);
+  const [header, ...rest] = raw.split("\n");
+  const { body, footers } = parseContent(rest);
+  const parsed = parseHeader(header);
+  const resolved = resolveCommitType(parsed.type, parsed.emoji, config);
+  const breaking = parsed.breaking ||
+    footers.some((f) => BREAKING_CHANGE_TOKENS.includes(f.token));
+
+  return {
+    raw,
+    header,
+    emoji: parsed.emoji,
+    type: parsed.type,
+    scope: parsed.scope,
+    subject: parsed.subject,
+    body,
+    footers,
+    breaking,
+    ...resolved,
+    spans: parsed.spans,
+  };
+}
+
+/**
+ * Cuts the text of a commit message file at the scissors line git writes
+ * above the diff of `git commit --verbose`.
+ *
+ * @param text - Text of the commit message file.
+ * @returns The text above the scissors line, or the whole text if there's
+ * none.
+ */
+export function cutAtScissors(text: string) {
+  const lines = text.split("\n");
+  const index = lines.findIndex((line) => line.trimEnd() === SCISSORS_LINE);
+
+  return index === -1 ? text : lines.slice(0, index).join("\n");
+}
+
+function stripComments(message: string) {
+  return cutAtScissors(message.replaceAll("\r\n", "\n"))
+    .split("\n")
+    .filter((line) => !line.startsWith("#"))
+    .join("\n")
+    .trim();
+}
+
+function isEmoji(token: string) {
+  return EMOJI_CODE_REGEX.test(token) || EMOJI_CHAR_REGEX.test(token);
+}
+
+function parseHeader(header: string) {
+  const spans: ParsedCommit["spans"] = {};
+  let emoji: string | null = null;
+  let offset = 0;
+  let rest = header;
+
+  const [firstToken] = header.split(/\s/, 1);
+
+  if (isEmoji(firstToken)) {
+    emoji = firstToken;
+    spans.emoji = [0, firstToken.length];
+    rest = header.slice(firstToken.length).trimStart();
+    offset = header.length - rest.length;
+  }
+
+  const match = CONVENTIONAL_HEADER_REGEX.exec(rest);
+
+  if (match === null || !match.groups || !match.indices?.groups) {
+    const subject = rest.trim();
+
+    if (subject) spans.subject = [offset, offset + subject.length];
+
+    return { emoji, type: null, scope: null, breaking: false, subject, spans };
+  }
+
+  const { type, scope, breaking, subject } = match.groups;
+  const indices = match.indices.groups;
+
+  for (const key of ["type", "scope", "subject"] as const) {
+    const span = indices[key];
+
+    if (span !== undefined && span[0] !== span[1]) {
+      spans[key] = [offset + span[0], offset + span[1]];
+    }
+  }
+
+  return {
+    emoji,
+    type,
+    scope: scope === undefined ? null : scope.trim(),
+    breaking: breaking !== undefined,
+    subject,
+    spans,
+  };
+}
+
+function parseContent(lines: string[]) {
+  const paragraphs: string[][] = [];
+  let current: string[] = [];
+
+  for (const line of lines) {
+    if (line.trim() === "") {
+      if (current.length > 0) paragraphs.push(current);
+
+      current = [];
+    } else {
+      current.push(line);
+    }
+  }
+
+  if (current.length > 0) paragraphs.push(current);
+
+  let footerStart = paragraphs.length;
+
+  while (footerStart > 0 && FOOTER_REGEX.test(paragraphs[footerStart - 1][0])) {
+    footerStart--;
+  }
+
+  const body = paragraphs
+    .slice(0, footerStart)
+    .map((p) => p.join("\n"))
+    .join("\n\n");
+  const footers: CommitFooter[] = [];
+
+  for (const paragraph of paragraphs.slice(footerStart)) {
+    for (const line of paragraph) {
+      const match = FOOTER_REGEX.exec(line);
+
+      if (match !== null && match.groups) {
+        const { token, separator, value } = match.groups;
+
+        footers.push(
+          separator.endsWith("#")
+            ? { token, value: `#${value}`, separator: " #" }
+            : { token, value, separator: ": " },
+        );
+      } else {
+        footers[footers.length - 1].value += `\n${line}`;
+      }
+    }
+  }
+
+  return { body: body || null, footers };
+}
+
+function resolveCommitType(
+  type: string | null,
+  emoji: string | null,
+  config: Configuration,
+): Pick<ParsedCommit, "commitType" | "alias" | "resolution"> {
+  for (const token of [type, emoji]) {
+    const resolved = token === null ? null : config.resolve(token);
+
+    if (resolved !== null) {
+      return {
+        commitType: resolved.type,
+        alias: resolved.alias,
+        resolution: resolved.kind,
+      };
+    }
+  }
+
+  return {
+    commitType: config.types[config.fallback],
+    alias: null,
+    resolution: "fallback",
+  };
+}
+
+/**
+ * How {@link formatCommit} writes the emoji of the commit type or alias.
+ *
+ * - `character`: The emoji character. @example "✨"
+ * - `code`: The emoji shortcode. @example ":sparkles:"
+ * - `none`: No emoji.
+ */
+export type EmojiStyle = "character" | "code" | "none";
+
+/**
+ * Structured data of a commit message, as given to {@link formatCommit}.
+ */
+export interface CommitData {
+  /** Name of the commit type or alias. @example "feat" */
+  type: string;
+  /** Scope of the change, if any. @example "api" */
+  scope?: string | null;
+  /** Description of the change. @example "add pagination" */
+  subject: string;
+  /** Free-form body of the commit message, if any. */
+  body?: string | null;
+  /**
+   * Whether the commit is a breaking change. A string describes the breaking
+   * change, and is written as a `BREAKING CHANGE` footer.
+   */
+  breaking?: boolean | string | null;
+  /** Footers of the commit message. */
+  footers?: CommitFooter[];
+}
+
+/**
+ * Options for {@link formatCommit}.
+ */
+export interface FormatCommitOptions {
+  /**
+   * Template of the header. Its placeholders are `emoji`, `type`, `scope`,
+   * `subject` and `breaking`, the last one being `true` for breaking changes.
+   * Defaults to {@link DEFAULT_HEADER_TEMPLATE}.
+   *
+   * @example "{emoji} {type}({scope}): {subject}"
+   */
+  header?: string;
+  /** How the emoji is written. Defaults to `character`. */
+  emoji?: EmojiStyle;
+  /**
+   * Maximum length of the body lines, or `null` to leave the body as is.
+   * Defaults to `72`.
+   */
+  wrap?: number | null;
+  /**
+   * Footer tokens in the order they're written. Footers with other tokens are
+   * written after them, in the order they were given. Defaults to writing
+   * breaking changes first.
+   */
+  footerOrder?: string[];
+}
+
+function wrapParagraph(paragraph: string, width: number) {
+  const lines = paragraph.split("\n");
+
+  if (lines.some((line) => PRESERVED_LINE_REGEX.test(line))) return paragraph;
+
+  const wrapped: string[] = [];
+  let line = "";
+
+  for (const word of paragraph.split(/\s+/)) {
+    if (line !== "" && line.length + word.length + 1 > width) {
+      wrapped.push(line);
+      line = word;
+    } else {
+      line = line === "" ? word : `${line} ${word}`;
+    }
+  }
+
+  return [...wrapped, line].join("\n");
+}
+
+function formatBody(body: string, wrap: number | null) {
+  const paragraphs = body.trim().replaceAll("\r\n", "\n").split(/\n\s*\n/);
+
+  return paragraphs
+    .map((p) => wrap === null ? p.trim() : wrapParagraph(p.trim(), wrap))
+    .join("\n\n");
+}
+
+function sortFooters(footers: CommitFooter[], order: string[]) {
+  const rank = (footer: CommitFooter) => {
+    const index = order.indexOf(footer.token);
+
+    return index === -1 ? order.length : index;
+  };
+
+  return [...footers].sort((a, b) => rank(a) - rank(b));
+}
+
+/**
+ * Formats structured commit data as a canonical commit message. It's the
+ * inverse of {@link parseCommit}.
+ *
+ * The emoji is the one of the commit alias, or of the commit type if `type`
+ * is a commit type name. The body is wrapped, except for paragraphs with list
+ * items, indented code or quotes. A string `breaking` is written as a
+ * `BREAKING CHANGE` footer, unless the footers already have one. Footers keep
+ * their separator, so `Closes #12` isn't rewritten as `Closes: #12`.
+ *
+ * @param data - The commit data.
+ * @param config - Configuration used to resolve the commit type or alias.
+ * @param options - Optional header template, emoji style, body wrapping and
+ * footer order.
+ * @returns The commit message, without a trailing newline.
+ * @throws {Error} If `type` isn't a commit type or alias.
+ * @throws {TemplateRenderError} If the header template has placeholders that
+ * aren't available.
+ *
+ * @example
+ *
+ * ```ts
+ * import { formatCommit } from "./commit.ts";
+ * import { Configuration } from "./configuration.ts";
+ *
+ * const config = Configuration.fromPreset("default");
+ * const message = formatCommit(
+ *   {
+ *     type: "dependencies",
+ *     scope: "deps",
+ *     subject: "bump zod to 3.22.4",
+ *     footers: [{ token: "Signed-off-by", value: "Bot <bot@example.com>" }],
+ *   },
+ *   config,
+ *   { emoji: "code" },
+ * );
+ *
+ * console.assert(
+ *   message === ":package: dependencies(deps): bump zod to 3.22.4\n\n" +
+ *     "Signed-off-by: Bot <bot@example.com>",
+ * );
+ * ```
+ */
+export function formatCommit(
+  data: CommitData,
+  config: Configuration,
+  options: FormatCommitOptions = {},
+) {
+  const resolved = config.resolve(data.type);
+
+  if (resolved === null || resolved.kind.endsWith("emoji")) {
+    throw new Error(`Unknown commit type or alias "${data.type}".`, {
+      cause: { type: data.type },
+    });
+  }
+
+  const {
+    header = DEFAULT_HEADER_TEMPLATE,
+    emoji: style = "character",
+    wrap = 72,
+    footerOrder = BREAKING_CHANGE_TOKENS,
+  } = options;
+  const footers = [...data.footers || []];
+  const hasBreakingFooter = footers.some((f) =>
+    BREAKING_CHANGE_TOKENS.includes(f.token)
+  );
+
+  if (typeof data.breaking === "string" && !hasBreakingFooter) {
+    footers.push({ token: "BREAKING CHANGE", value: data.breaking.trim() });
+  }
+
+  const { emoji } = resolved.alias || resolved.type;
+  const paragraphs = [
+    new Template(header).render({
+      emoji: style === "none" ? "" : emoji[style],
+      type: data.type,
+      scope: data.scope || "",
+      subject: data.subject.trim(),
+      breaking: Boolean(data.breaking) || hasBreakingFooter,
+    }).trim(),
+  ];
+
+  if (data.body && data.body.trim() !== "") {
+    paragraphs.push(formatBody(data.body, wrap));
+  }
+
+  if (footers.length > 0) {
+    paragraphs.push(
+      sortFooters(footers, footerOrder)
+        .map(({ token, value, separator }) =>
+          separator === " #"
+            ? `${token} #${value.replace(/^#/, "")}`
+            : `${token}: ${value}`
+        )
+        .join("\n"),
+    );
+  }
+
+  return paragraphs.join("\n\n");
+}
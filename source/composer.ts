@@ -0,0 +1,370 @@
+import { cutAtScissors, formatCommit, FormatCommitOptions } from "./commit.ts";
+import { CommitAlias, CommitType, Configuration } from "./configuration.ts";
+import { Template } from "./template.ts";
+
+/**
+ * Template of a commit type or alias in the list of choices.
+ */
+const CHOICE_TEMPLATE = new Template("{index}. {emoji} {name}: {description}");
+
+/**
+ * Template of a scope in the list of choices.
+ */
+const SCOPE_TEMPLATE = new Template(
+  "{index}. {name}{?details}: {details}{/details}",
+);
+
+/**
+ * Subject shown in the preview until the subject is entered.
+ */
+const PREVIEW_SUBJECT = "…";
+
+/**
+ * Input and output of the composer, so it can be driven by scripted input.
+ */
+export interface ComposerIO {
+  /**
+   * Asks for a line of input.
+   *
+   * @param message - The question.
+   * @returns The answer, or `null` when there's no more input.
+   */
+  prompt(message: string): string | null;
+  /** Writes text to the terminal. */
+  write(text: string): void;
+}
+
+/**
+ * Represents a commit message being written with {@link composeCommit}.
+ */
+export interface CommitDraft {
+  /** Emoji character of the commit type or alias. @example "✨" */
+  emoji: string;
+  /** Name of the commit type or alias. @example "feat" */
+  type: string;
+  /** Scope of the change, if any. @example "api" */
+  scope: string | null;
+  /** Description of the change. @example "add pagination" */
+  subject: string;
+  /** Free-form body of the commit message, if any. */
+  body: string | null;
+  /** Description of the breaking change, if there's one. */
+  breaking: string | null;
+  /** References to issues or pull requests. @example ["#12", "#34"] */
+  references: string[];
+}
+
+interface Choice {
+  name: string;
+  description: string;
+  entry: CommitType | CommitAlias;
+}
+
+/**
+ * Gets the commit types in the configured order, each one followed by its
+ * aliases.
+ */
+function getChoices(config: Configuration) {
+  const aliases = Object.values(config.aliases);
+  const choices: Choice[] = [];
+
+  for (const name of config.order) {
+    const type = config.types[name];
+
+    choices.push({ name, description: type.description, entry: type });
+
+    for (const alias of aliases.filter((alias) => alias.type === name)) {
+      choices.push({
+        name: alias.name,
+        description: alias.description,
+        entry: alias,
+      });
+    }
+  }
+
+  return choices;
+}
+
+function searchChoices(choices: Choice[], query: string) {
+  const value = query.toLowerCase();
+
+  return choices.filter(({ name, description, entry }) =>
+    [name, description, entry.emoji.code, entry.emoji.name].some((text) =>
+      text.toLowerCase().includes(value)
+    )
+  );
+}
+
+function writeChoices(io: ComposerIO, choices: Choice[]) {
+  choices.forEach(({ name, description, entry }, index) => {
+    const emoji = entry.emoji.character;
+    const line = CHOICE_TEMPLATE.render({
+      index: index + 1,
+      emoji,
+      name,
+      description,
+    });
+
+    io.write(line + "\n");
+  });
+}
+
+/**
+ * Asks for a commit type or alias until one is picked. Answers can be the
+ * number of a listed choice, or a name, emoji or text to search for.
+ */
+function askType(config: Configuration, io: ComposerIO) {
+  const choices = getChoices(config);
+  let listed = choices;
+
+  writeChoices(io, listed);
+
+  while (true) {
+    const answer = io.prompt("Commit type (number, name, emoji or search):");
+
+    if (answer === null) return null;
+
+    const query = answer.trim();
+    const index = Number(query);
+
+    if (Number.isInteger(index) && index >= 1 && index <= listed.length) {
+      return listed[index - 1];
+    }
+
+    const resolution = query === "" ? null : config.resolve(query);
+    const name = resolution?.alias?.name || resolution?.type.type;
+    const resolved = choices.find((choice) => choice.name === name);
+
+    if (resolved !== undefined) return resolved;
+
+    const matches = searchChoices(choices, query);
+
+    if (matches.length === 1) return matches[0];
+
+    if (matches.length === 0) {
+      io.write(`Nothing matches "${query}".\n`);
+      listed = choices;
+    } else {
+      listed = matches;
+    }
+
+    writeChoices(io, listed);
+  }
+}
+
+/**
+ * Asks for a scope. Answers can be the number of a configured scope, or any
+ * other scope.
+ */
+function askScope(config: Configuration, io: ComposerIO, type: string) {
+  const scopes = config.getScopes(type);
+
+  scopes.forEach(({ name, description, pattern }, index) => {
+    const details = description || pattern;
+
+    io.write(SCOPE_TEMPLATE.render({ index: index + 1, name, details }) + "\n");
+  });
+
+  const answer = io.prompt("Scope (number or name, empty for none):");
+
+  if (answer === null) return undefined;
+
+  const query = answer.trim();
+  const index = Number(query);
+
+  if (query !== "" && Number.isInteger(index) && scopes[index - 1]) {
+    return scopes[index - 1].name;
+  }
+
+  return query || null;
+}
+
+function askLines(io: ComposerIO, message: string) {
+  const lines: string[] = [];
+
+  while (true) {
+    const answer = io.prompt(message);
+
+    if (answer === null || answer.trim() === "") return lines;
+
+    lines.push(answer.trimEnd());
+  }
+}
+
+/**
+ * Renders a commit draft as a commit message with {@link formatCommit}. The
+ * references are written as a `Refs` footer.
+ *
+ * An empty subject is rendered as `…`, so drafts can be previewed while
+ * they're written.
+ *
+ * @param draft - The commit draft.
+ * @param config - Configuration the draft was composed with.
+ * @param options - Optional formatting options.
+ * @returns The commit message, without a trailing newline.
+ *
+ * @example
+ *
+ * ```ts
+ * import { renderCommitDraft } from "./composer.ts";
+ * import { Configuration } from "./configuration.ts";
+ *
+ * const message = renderCommitDraft({
+ *   emoji: "✨",
+ *   type: "feat",
+ *   scope: "api",
+ *   subject: "add pagination",
+ *   body: null,
+ *   breaking: null,
+ *   references: ["#12"],
+ * }, Configuration.fromPreset("default"));
+ *
+ * console.assert(message === "✨ feat(api): add pagination\n\nRefs: #12");
+ * ```
+ */
+export function renderCommitDraft(
+  draft: CommitDraft,
+  config: Configuration,
+  options: FormatCommitOptions = {},
+) {
+  const { type, scope, subject, body, breaking, references } = draft;
+  const footers = references.length > 0
+    ? [{ token: "Refs", value: references.join(", ") }]
+    : [];
+
+  return formatCommit(
+    {
+      type,
+      scope,
+      subject: subject || PREVIEW_SUBJECT,
+      body,
+      breaking,
+      footers,
+    },
+    config,
+    options,
+  );
+}
+
+function writePreview(
+  io: ComposerIO,
+  draft: CommitDraft,
+  config: Configuration,
+  options: FormatCommitOptions,
+) {
+  const message = renderCommitDraft(draft, config, options)
+    .replace(/^/gm, "  │ ");
+
+  io.write(`\n${message}\n\n`);
+}
+
+/**
+ * Walks the user through writing a commit message: the commit type or alias,
+ * the scope, the subject, the body, the breaking change description and the
+ * references to issues. A preview of the message is shown after each step.
+ *
+ * @param config - Configuration with the commit types, aliases and scopes.
+ * @param io - Input and output used to ask the questions.
+ * @param options - Optional formatting options used by the preview.
+ * @returns The commit draft, or `null` if the input ended before the subject
+ * was entered.
+ *
+ * @example
+ *
+ * ```ts
+ * import { composeCommit, renderCommitDraft } from "./composer.ts";
+ * import { Configuration } from "./configuration.ts";
+ *
+ * const answers = ["feat", "api", "add pagination", "", "", "#12"];
+ * const draft = composeCommit(Configuration.fromPreset("default"), {
+ *   prompt: () => answers.shift() ?? null,
+ *   write: () => {},
+ * });
+ *
+ * console.assert(draft?.scope === "api");
+ * console.log(renderCommitDraft(draft!, Configuration.fromPreset("default")));
+ * ```
+ */
+export function composeCommit(
+  config: Configuration,
+  io: ComposerIO,
+  options: FormatCommitOptions = {},
+): CommitDraft | null {
+  const choice = askType(config, io);
+
+  if (choice === null) return null;
+
+  const draft: CommitDraft = {
+    emoji: choice.entry.emoji.character,
+    type: choice.name,
+    scope: null,
+    subject: "",
+    body: null,
+    breaking: null,
+    references: [],
+  };
+
+  writePreview(io, draft, config, options);
+
+  const scope = askScope(config, io, choice.name);
+
+  if (scope === undefined) return null;
+
+  draft.scope = scope;
+  writePreview(io, draft, config, options);
+
+  while (draft.subject === "") {
+    const subject = io.prompt("Subject:");
+
+    if (subject === null) return null;
+
+    draft.subject = subject.trim();
+  }
+
+  writePreview(io, draft, config, options);
+
+  const body = askLines(io, "Body (empty line to finish):");
+
+  draft.body = body.length > 0 ? body.join("\n") : null;
+  writePreview(io, draft, config, options);
+
+  const breaking = io.prompt("Breaking change (empty for none):");
+
+  draft.breaking = breaking?.trim() || null;
+  writePreview(io, draft, config, options);
+
+  const references = io.prompt("Issue references (like #12, #34):");
+
+  draft.references = (references || "")
+    .split(/[\s,]+/)
+    .filter((reference) => reference !== "");
+  writePreview(io, draft, config, options);
+
+  return draft;
+}
+
+/**
+ * Writes a commit message to a commit message file, like the one given to the
+ * `prepare-commit-msg` hook. The comment lines already in the file, which git
+ * shows while editing the message, are kept after the message, and so is the
+ * diff below the scissors line of `git commit --verbose`.
+ *
+ * @param path - Path to the commit message file.
+ * @param message - The commit message.
+ */
+export function writeCommitMessage(path: string, message: string) {
+  let existing = "";
+
+  try {
+    existing = Deno.readTextFileSync(path);
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+  }
+
+  const above = cutAtScissors(existing);
+  const comments = above.split("\n").filter((line) => line.startsWith("#"));
+  const text = [message, ...comments.length > 0 ? ["", ...comments] : []];
+  const diff = existing.slice(above.length).replace(/^\n/, "");
+
+  Deno.writeTextFileSync(path, text.join("\n") + "\n" + diff);
+}
@@ -1,6 +1,20 @@
 import { deepMerge } from "https://deno.land/std@0.208.0/collections/deep_merge.ts";
+import {
+  dirname,
+  join,
+  resolve,
+} from "https://deno.land/std@0.208.0/path/mod.ts";
 import z from "https://deno.land/x/zod@v3.22.4/index.ts";
-import { EmojiObjectSchema } from "./emoji.ts";
+import {
+  demojify,
+  EMOJI_CODE_REGEX,
+  emojify,
+  EmojiObject,
+  EmojiObjectSchema,
+  normalizeEmoji,
+} from "./emoji.ts";
+import { JsonLocation, JsonParseError, ParsedJson, parseJson } from "./json.ts";
+import { PresetName, PRESETS } from "./presets/mod.ts";
 
 const TextSchema = z.string().trim().min(1);
 
@@ -108,7 +122,8 @@ export type CommitType = z.TypeOf<typeof CommitTypeSchema>;
  * ```
  */
 export const CommitAliasSchema = CommitTypeSchema.omit({ title: true }).extend({
-  name: TextSchema,
+  /** Name of the alias. @example "initial" */
+  name: TextSchema.describe("Name of the alias. Example: `initial`."),
 });
 
 /**
@@ -117,85 +132,1063 @@ export const CommitAliasSchema = CommitTypeSchema.omit({ title: true }).extend({
  */
 export type CommitAlias = z.TypeOf<typeof CommitAliasSchema>;
 
-const ConfigurationSchema = z
+/**
+ * Schema that validates a scope definition.
+ *
+ * A scope can be written as a plain string, which is its name, or as an object
+ * with a name, a description and a pattern. Patterns can be globs, where `*`
+ * matches any characters and `?` a single one, or regular expressions written
+ * between slashes. The parsed scope is always an object.
+ *
+ * @example
+ *
+ * ```ts
+ * import { ScopeSchema } from "./configuration.ts";
+ *
+ * const scope = ScopeSchema.parse({
+ *   name: "packages",
+ *   description: "A package of the monorepo.",
+ *   pattern: "pkg-*",
+ * });
+ *
+ * console.assert(ScopeSchema.parse("deps").pattern === null);
+ * ```
+ */
+export const ScopeSchema = z
+  .union([
+    TextSchema,
+    z.object({
+      /** Name of the scope. @example "packages" */
+      name: TextSchema.describe("Name of the scope. Example: `packages`."),
+      /** Longer description of the scope. */
+      description: TextSchema.nullable()
+        .default(null)
+        .describe("Longer description of the scope."),
+      /** Optional glob or `/regex/` the scope must match. @example "pkg-*" */
+      pattern: TextSchema.nullable()
+        .default(null)
+        .superRefine((pattern, ctx) => {
+          if (pattern === null) return;
+
+          try {
+            compileScopePattern(pattern);
+          } catch (error) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: `The scope pattern "${pattern}" isn't valid: ${
+                (error as Error).message
+              }`,
+            });
+          }
+        })
+        .describe(
+          "Optional glob or `/regex/` the scope must match. Example: `pkg-*`.",
+        ),
+    }),
+  ])
+  .transform((value) =>
+    typeof value === "string"
+      ? { name: value, description: null, pattern: null }
+      : value
+  )
+  .describe(
+    "A scope name, or an object with its name, description and pattern.",
+  );
+
+/**
+ * Represents a scope definition.
+ */
+export type Scope = z.TypeOf<typeof ScopeSchema>;
+
+/**
+ * Regular expressions of the scope patterns, compiled when the configuration
+ * is validated and reused when scopes are matched.
+ */
+const SCOPE_PATTERN_CACHE = new Map<string, RegExp>();
+
+/**
+ * Converts the pattern of a scope into a regular expression.
+ *
+ * @param pattern - A glob like `pkg-*`, or a regular expression between
+ * slashes like `/^pkg-\w+$/i`.
+ * @returns The regular expression.
+ * @throws {SyntaxError} If the regular expression isn't valid.
+ */
+export function scopePatternToRegExp(pattern: string) {
+  const regex = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+
+  if (regex !== null) return new RegExp(regex[1], regex[2]);
+
+  const source = pattern
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replaceAll("*", ".*")
+    .replaceAll("?", ".");
+
+  return new RegExp(`^${source}$`);
+}
+
+function compileScopePattern(pattern: string) {
+  let regex = SCOPE_PATTERN_CACHE.get(pattern);
+
+  if (regex === undefined) {
+    regex = scopePatternToRegExp(pattern);
+    SCOPE_PATTERN_CACHE.set(pattern, regex);
+  }
+
+  regex.lastIndex = 0;
+
+  return regex;
+}
+
+/**
+ * Checks whether a scope written in a commit matches a scope definition,
+ * either by name or by pattern.
+ *
+ * @param scope - The scope definition.
+ * @param value - The scope written in a commit.
+ * @returns `true` if the value matches the scope, `false` otherwise.
+ */
+export function matchesScope(scope: Scope, value: string) {
+  if (scope.name === value) return true;
+  if (scope.pattern === null) return false;
+
+  return compileScopePattern(scope.pattern).test(value);
+}
+
+/**
+ * Checks the cross references of a configuration, reporting every violation:
+ *
+ * - The fallback must be a commit type.
+ * - Each alias must point at an existing commit type.
+ * - Alias names must not collide with commit type names.
+ * - Emoji codes and characters must be unique across types and aliases, or
+ *   emoji lookups would be ambiguous.
+ * - Each `order` entry must be a commit type.
+ */
+function checkIntegrity(
+  value: {
+    types: Record<string, CommitType>;
+    aliases: Record<string, CommitAlias>;
+    fallback: string;
+    order: string[];
+  },
+  ctx: z.RefinementCtx,
+) {
+  const { types, aliases, fallback, order } = value;
+  const codes = new Map<string, string>();
+  const characters = new Map<string, string>();
+
+  if (!(fallback in types)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["fallback"],
+      message: `The fallback type must be a valid commit type, ` +
+        `but "${fallback}" is not.`,
+    });
+  }
+
+  const entries = [
+    ...Object.entries(types).map(([k, v]) => ["types", k, v] as const),
+    ...Object.entries(aliases).map(([k, v]) => ["aliases", k, v] as const),
+  ];
+
+  for (const [group, key, { emoji }] of entries) {
+    const owner = `${group}.${key}`;
+
+    for (
+      const [seen, property] of [[codes, "code"], [
+        characters,
+        "character",
+      ]] as const
+    ) {
+      const value = property === "character"
+        ? normalizeEmoji(emoji.character)
+        : emoji.code;
+      const previous = seen.get(value);
+
+      if (previous === undefined) {
+        seen.set(value, owner);
+        continue;
+      }
+
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [group, key, "emoji", property],
+        message: `The emoji ${property} "${emoji[property]}" is already ` +
+          `used by "${previous}".`,
+      });
+    }
+  }
+
+  for (const key in aliases) {
+    if (key in types) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["aliases", key],
+        message: `The alias "${key}" has the same name as a commit type.`,
+      });
+    }
+
+    if (!(aliases[key].type in types)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["aliases", key, "type"],
+        message: `The alias "${key}" points at "${aliases[key].type}", ` +
+          `which is not a valid commit type.`,
+      });
+    }
+  }
+
+  for (let i = 0; i < order.length; i++) {
+    if (!(order[i] in types)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["order", i],
+        message: `The order entry "${order[i]}" is not a valid commit type.`,
+      });
+    }
+  }
+}
+
+const ScopesSchema = z
+  .record(TextSchema, z.array(ScopeSchema))
+  .describe("The scopes allowed for each commit type or alias.");
+
+/**
+ * Schema that validates a whole configuration, including the cross references
+ * between commit types, aliases, scopes and order.
+ */
+export const ConfigurationSchema = z
   .object({
     types: z
       .record(TextSchema, CommitTypeSchema)
       .describe(
         "The commit types mapped to their emoji, title, description, and scope.",
       ),
-    aliases: z.record(TextSchema, CommitAliasSchema),
-    fallback: TextSchema,
-    scopes: z.custom<{ [k: string]: string[] }>(),
-    order: z.array(TextSchema).default([]),
-  })
-  .refine(({ fallback, types }) => fallback in types, {
-    message: "The fallback type must be a valid commit type.",
+    aliases: z
+      .record(TextSchema, CommitAliasSchema)
+      .describe("The commit aliases mapped to the commit type they stand for."),
+    fallback: TextSchema.describe(
+      "Commit type used when a commit doesn't match any type or alias.",
+    ),
+    scopes: ScopesSchema.default({}),
+    order: z
+      .array(TextSchema)
+      .default([])
+      .describe("Commit types in the order they're listed in changelogs."),
   })
+  .describe("Commit types, aliases and scopes used to write and read commits.")
+  .superRefine(checkIntegrity)
   .transform(function (value) {
-    const { scopes } = value;
-    const keys = Object.keys(value.types);
-    const shape = {} as Record<
-      string,
-      z.ZodDefault<z.ZodArray<z.ZodString, "many">>
-    >;
-
-    for (let i = 0; i < keys.length; i++) {
-      shape[keys[i]] = z.array(TextSchema).default([]);
-
-      if (!value.order.includes(keys[i])) {
-        value.order.push(keys[i]);
+    const scopes: Record<string, Scope[]> = {};
+
+    for (const key in value.types) {
+      scopes[key] = value.scopes[key] || [];
+
+      if (!value.order.includes(key)) {
+        value.order.push(key);
       }
     }
 
-    const schema = z.object(shape);
-
-    Object.assign(value, { scopes: schema.parse(scopes) });
-    Object.assign(value, { order: z.array(schema.keyof()).parse(value.order) });
+    for (const alias in value.aliases) {
+      scopes[alias] = value.scopes[alias] || [];
+    }
 
-    return value;
+    return Object.assign(value, { scopes });
   });
 
 export type ConfigurationProperties = z.TypeOf<typeof ConfigurationSchema>;
 
-export interface Configuration extends ConfigurationProperties {
-  types: Record<string, CommitType & { index: number }>;
-}
+/**
+ * Represents a raw, possibly partial, configuration object as written in a
+ * configuration file.
+ *
+ * Commit types, aliases and scope lists set to `null` are removed from the
+ * merged configuration, so a layer can drop what it inherits.
+ */
+export type ConfigurationInput =
+  & Partial<
+    Omit<z.input<typeof ConfigurationSchema>, "types" | "aliases" | "scopes">
+  >
+  & {
+    types?: Record<string, z.input<typeof CommitTypeSchema> | null>;
+    aliases?: Record<string, z.input<typeof CommitAliasSchema> | null>;
+    scopes?: Record<string, z.input<typeof ScopeSchema>[] | null>;
+    /** URL of the JSON Schema of the configuration file. */
+    $schema?: string;
+    /**
+     * Presets or paths to configuration files this one extends, merged in
+     * order before it. Paths are relative to the file that extends them.
+     *
+     * @example ["default", "./base.json"]
+     */
+    extends?: string | string[];
+  };
+
+/**
+ * Represents a single layer of configuration and where it comes from.
+ */
+export interface ConfigurationLayer {
+  /** Where the layer comes from, usually a file path. @example "/repo/.gitmojirc.json" */
+  source: string;
+  /** The raw configuration of the layer. */
+  value: ConfigurationInput;
+  /** Contents of the source file, if the layer was read from one. */
+  text?: string;
+  /**
+   * Where each value of the layer is written in {@link ConfigurationLayer.text},
+   * keyed by its dotted path relative to the layer value.
+   */
+  locations?: Record<string, JsonLocation>;
+}
+
+/**
+ * Represents a single problem found in a configuration.
+ */
+export interface ConfigurationProblem {
+  /** Path of the invalid value. Empty when the file isn't valid JSON. */
+  path: (string | number)[];
+  /** Description of the problem. */
+  message: string;
+  /** Description of the expected value, if the schema has one. */
+  expected: string | null;
+  /** Source of the layer that set the invalid value, usually a file path. */
+  source: string | null;
+  /** Where the invalid value is written in the source file, if known. */
+  location: JsonLocation | null;
+  /** The line of the source file where the invalid value is written. */
+  excerpt: string | null;
+}
+
+/**
+ * Options for {@link Configuration.discover}.
+ */
+export interface DiscoverOptions {
+  /**
+   * Path to a configuration file loaded instead of the defaults, the
+   * user-global configuration and the repository configuration. It can extend
+   * presets and other files.
+   */
+  path?: string | null;
+  /** Base configuration, applied before any file. Defaults to the `default` preset. */
+  defaults?: ConfigurationInput;
+  /**
+   * Path to the user-global configuration file. Defaults to
+   * `~/.gitmojirc.json`. Set to `null` to skip it.
+   */
+  globalPath?: string | null;
+  /** Extra layers applied after the repository configuration. */
+  layers?: (string | ConfigurationLayer)[];
+  /**
+   * Environment variables used to override the configuration. Defaults to the
+   * ones of the process. See {@link CONFIGURATION_ENV_VARIABLES}.
+   */
+  env?: Record<string, string>;
+}
+
+/**
+ * Names of the files looked up by {@link Configuration.discover}, in order of
+ * precedence.
+ */
+export const CONFIGURATION_FILE_NAMES = [
+  ".gitmojirc.json",
+  "gitmoji.config.json",
+];
+
+/**
+ * Names of the manifest files looked up by {@link Configuration.discover}.
+ * Their configuration lives under the {@link CONFIGURATION_MANIFEST_KEY} key.
+ */
+export const CONFIGURATION_MANIFEST_NAMES = ["deno.json", "package.json"];
+
+/**
+ * Key of the configuration in manifest files like `deno.json`.
+ */
+export const CONFIGURATION_MANIFEST_KEY = "conventionalGitmoji";
+
+/**
+ * Names of the environment variables that override the configuration found by
+ * {@link Configuration.discover}. The order is a comma-separated list of
+ * commit types.
+ *
+ * @example CONVENTIONAL_GITMOJI_ORDER="feat,fix,docs"
+ */
+export const CONFIGURATION_ENV_VARIABLES = {
+  fallback: "CONVENTIONAL_GITMOJI_FALLBACK",
+  order: "CONVENTIONAL_GITMOJI_ORDER",
+};
+
+function getExcerpt(text: string, location: JsonLocation) {
+  return text.split("\n")[location.line - 1].replace(/\r$/, "");
+}
+
+function readJsonFile(path: string): ParsedJson & { text: string } {
+  const text = Deno.readTextFileSync(path);
+
+  try {
+    return { text, ...parseJson(text) };
+  } catch (error) {
+    if (!(error instanceof JsonParseError)) throw error;
+
+    const problem: ConfigurationProblem = {
+      path: [],
+      message: error.reason,
+      expected: null,
+      source: path,
+      location: error.location,
+      excerpt: getExcerpt(text, error.location),
+    };
+
+    throw new ConfigurationError([problem], { cause: error });
+  }
+}
+
+function readLayer(path: string): ConfigurationLayer {
+  const { text, value, locations } = readJsonFile(path);
+
+  return { source: path, value: value as ConfigurationInput, text, locations };
+}
+
+function readManifestLayer(path: string): ConfigurationLayer | null {
+  const { text, value, locations } = readJsonFile(path);
+  const prefix = CONFIGURATION_MANIFEST_KEY + ".";
+
+  if (!isPlainObject(value) || !(CONFIGURATION_MANIFEST_KEY in value)) {
+    return null;
+  }
+
+  const layer: ConfigurationLayer = {
+    source: path,
+    value: value[CONFIGURATION_MANIFEST_KEY] as ConfigurationInput,
+    text,
+    locations: { "": locations[CONFIGURATION_MANIFEST_KEY] },
+  };
+
+  for (const key in locations) {
+    if (key.startsWith(prefix)) {
+      layer.locations![key.slice(prefix.length)] = locations[key];
+    }
+  }
+
+  return layer;
+}
+
+function createPresetLayer(name: PresetName): ConfigurationLayer {
+  return { source: `preset:${name}`, value: structuredClone(PRESETS[name]) };
+}
+
+/**
+ * Replaces a layer with the layers of its `extends` chain, followed by the
+ * layer itself. The chain holds the paths of the files being expanded, to
+ * detect files that end up extending themselves.
+ */
+function expandLayer(
+  layer: ConfigurationLayer,
+  chain: string[] = [],
+): ConfigurationLayer[] {
+  const { extends: parents, ...value } = layer.value;
+
+  if (parents === undefined) return [layer];
+
+  const isList = Array.isArray(parents);
+  const entries = z.array(TextSchema).safeParse(isList ? parents : [parents]);
+
+  if (!entries.success) {
+    throw new ConfigurationError(
+      entries.error.issues.map((issue) =>
+        createProblem({
+          ...issue,
+          path: isList ? ["extends", ...issue.path] : ["extends"],
+        }, [layer])
+      ),
+    );
+  }
+
+  const directory = layer.text === undefined
+    ? Deno.cwd()
+    : dirname(resolve(layer.source));
+  const layers: ConfigurationLayer[] = [];
+
+  if (layer.text !== undefined && chain.length === 0) {
+    chain = [resolve(layer.source)];
+  }
+
+  entries.data.forEach((entry, index) => {
+    if (Object.hasOwn(PRESETS, entry)) {
+      layers.push(createPresetLayer(entry as PresetName));
+
+      return;
+    }
+
+    const path = resolve(directory, entry);
+
+    if (chain.includes(path)) {
+      const issue: z.ZodIssue = {
+        code: z.ZodIssueCode.custom,
+        path: isList ? ["extends", index] : ["extends"],
+        message: `The configuration extends itself: ` +
+          `${[...chain, path].join(" -> ")}.`,
+      };
+
+      throw new ConfigurationError([createProblem(issue, [layer])]);
+    }
+
+    layers.push(...expandLayer(readLayer(path), [...chain, path]));
+  });
+
+  return [...layers, { ...layer, value }];
+}
+
+function readEnvironmentLayers(env?: Record<string, string>) {
+  const layers: ConfigurationLayer[] = [];
+  const names = CONFIGURATION_ENV_VARIABLES;
+  const read = (name: string) =>
+    (env === undefined ? Deno.env.get(name) : env[name])?.trim() || null;
+  const fallback = read(names.fallback);
+  const order = read(names.order);
+
+  if (fallback !== null) {
+    layers.push({ source: `env:${names.fallback}`, value: { fallback } });
+  }
+
+  if (order !== null) {
+    layers.push({
+      source: `env:${names.order}`,
+      value: { order: order.split(",").map((type) => type.trim()) },
+    });
+  }
+
+  return layers;
+}
+
+/**
+ * Finds the defaults, user-global and repository layers used by
+ * {@link Configuration.discover}.
+ */
+function findLayers(cwd: string, options: DiscoverOptions) {
+  const layers: ConfigurationLayer[] = [];
+  const globalPath = options.globalPath === undefined
+    ? getGlobalPath()
+    : options.globalPath;
+
+  layers.push(
+    options.defaults
+      ? { source: "defaults", value: options.defaults }
+      : createPresetLayer("default"),
+  );
+
+  if (globalPath !== null && isFile(globalPath)) {
+    layers.push(readLayer(globalPath));
+  }
+
+  const repositoryLayer = findRepositoryLayer(cwd);
+
+  if (repositoryLayer !== null) layers.push(repositoryLayer);
+
+  return layers;
+}
+
+function isFile(path: string) {
+  try {
+    return Deno.statSync(path).isFile;
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return false;
+
+    throw error;
+  }
+}
+
+function findRepositoryLayer(cwd: string): ConfigurationLayer | null {
+  let directory = resolve(cwd);
+
+  while (true) {
+    for (const name of CONFIGURATION_FILE_NAMES) {
+      const path = join(directory, name);
+
+      if (isFile(path)) return readLayer(path);
+    }
+
+    for (const name of CONFIGURATION_MANIFEST_NAMES) {
+      const path = join(directory, name);
+
+      if (!isFile(path)) continue;
+
+      const layer = readManifestLayer(path);
+
+      if (layer !== null) return layer;
+    }
+
+    const parent = dirname(directory);
+
+    if (parent === directory) return null;
+
+    directory = parent;
+  }
+}
+
+function getGlobalPath() {
+  const home = Deno.env.get("HOME") || Deno.env.get("USERPROFILE");
+
+  return home ? join(home, ".gitmojirc.json") : null;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function collectSources(
+  value: unknown,
+  source: string,
+  sources: Record<string, string>,
+  path = "",
+) {
+  if (!isPlainObject(value) || path === "order") {
+    sources[path] = source;
+
+    return;
+  }
+
+  for (const key in value) {
+    collectSources(value[key], source, sources, path ? `${path}.${key}` : key);
+  }
+}
+
+function mergeLayers(layers: ConfigurationLayer[]) {
+  let merged: Record<string, unknown> = {};
+  const sources: Record<string, string> = {};
+
+  for (const { source, value } of layers) {
+    merged = deepMerge(merged, value as Record<string, unknown>);
+
+    if ("order" in value) {
+      merged.order = value.order;
+    }
+
+    collectSources(value, source, sources);
+  }
+
+  removeEntries(merged, sources);
+
+  return { merged, sources };
+}
+
+/**
+ * Removes the commit types, aliases and scope lists set to `null`, along with
+ * their sources. Removed commit types are also left out of the order.
+ */
+function removeEntries(
+  merged: Record<string, unknown>,
+  sources: Record<string, string>,
+) {
+  for (const group of ["types", "aliases", "scopes"]) {
+    const entries = merged[group];
+
+    if (!isPlainObject(entries)) continue;
+
+    for (const key in entries) {
+      if (entries[key] !== null) continue;
+
+      const prefix = `${group}.${key}`;
+
+      delete entries[key];
+
+      for (const path in sources) {
+        if (path === prefix || path.startsWith(prefix + ".")) {
+          delete sources[path];
+        }
+      }
+
+      if (group === "types" && Array.isArray(merged.order)) {
+        merged.order = merged.order.filter((type) => type !== key);
+      }
+    }
+  }
+}
+
+function unwrapSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodEffects) return unwrapSchema(schema.innerType());
+  if (schema instanceof z.ZodDefault) {
+    return unwrapSchema(schema.removeDefault());
+  }
+  if (schema instanceof z.ZodNullable || schema instanceof z.ZodOptional) {
+    return unwrapSchema(schema.unwrap());
+  }
+
+  return schema;
+}
+
+function getChildSchema(
+  schema: z.ZodTypeAny,
+  key: string | number,
+): z.ZodTypeAny | null {
+  const inner = unwrapSchema(schema);
+
+  if (inner instanceof z.ZodRecord) return inner.valueSchema as z.ZodTypeAny;
+  if (inner instanceof z.ZodArray) return inner.element as z.ZodTypeAny;
+  if (inner instanceof z.ZodObject) {
+    return (inner.shape[key] as z.ZodTypeAny | undefined) || null;
+  }
+  if (inner instanceof z.ZodUnion) {
+    for (const option of inner.options as z.ZodTypeAny[]) {
+      const child = getChildSchema(option, key);
+
+      if (child !== null) return child;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Gets the description of the value at the given path, as set with
+ * `.describe()` in the schemas. Falls back to the description of the closest
+ * described ancestor.
+ */
+function getSchemaDescription(path: (string | number)[]) {
+  let schema: z.ZodTypeAny | null = ConfigurationSchema;
+  let description: string | null = null;
+
+  for (const key of path) {
+    schema = getChildSchema(schema, key);
+
+    if (schema === null) break;
+
+    description = schema.description || description;
+  }
+
+  return description;
+}
+
+function getValueDepth(value: unknown, path: (string | number)[]) {
+  let depth = 0;
+
+  for (const key of path) {
+    if (!isPlainObject(value) && !Array.isArray(value)) break;
+    if (!(key in value)) break;
+
+    value = (value as Record<string, unknown>)[key];
+    depth++;
+  }
+
+  return depth;
+}
+
+function createProblem(
+  issue: z.ZodIssue,
+  layers: ConfigurationLayer[],
+): ConfigurationProblem {
+  const problem: ConfigurationProblem = {
+    path: issue.path,
+    message: issue.message,
+    expected: getSchemaDescription(issue.path),
+    source: null,
+    location: null,
+    excerpt: null,
+  };
+  let layer: ConfigurationLayer | null = null;
+  let depth = 0;
+
+  for (const candidate of layers) {
+    const candidateDepth = getValueDepth(candidate.value, issue.path);
+
+    if (layer === null || candidateDepth >= depth) {
+      layer = candidate;
+      depth = candidateDepth;
+    }
+  }
+
+  if (layer === null) return problem;
+
+  const key = issue.path.slice(0, depth).join(".");
+  const location = layer.locations?.[key];
+
+  problem.source = layer.source;
+
+  if (location !== undefined && layer.text !== undefined) {
+    problem.location = location;
+    problem.excerpt = getExcerpt(layer.text, location);
+  }
+
+  return problem;
+}
+
+/**
+ * Creates an index of entries by emoji. Exact codes and characters take
+ * precedence over their normalized forms, which match alternative shortcodes
+ * and characters with a different variation selector.
+ */
+function createEmojiIndex<T extends { emoji: EmojiObject }>(
+  entries: Record<string, T>,
+) {
+  const index = new Map<string, T>();
+  const values = Object.values(entries);
+
+  for (const value of values) {
+    index.set(value.emoji.code, value);
+    index.set(value.emoji.character, value);
+  }
+
+  for (const value of values) {
+    for (const emoji of [value.emoji.character, value.emoji.code]) {
+      const key = normalizeEmoji(emoji);
+
+      if (!index.has(key)) index.set(key, value);
+    }
+  }
+
+  return index;
+}
+
+function findInEmojiIndex<T>(index: Map<string, T>, emoji: string) {
+  return index.get(emoji) || index.get(normalizeEmoji(emoji)) || null;
+}
+
+/**
+ * How a token was resolved by {@link Configuration.resolve}.
+ *
+ * - `type`: The token is the name of a commit type.
+ * - `alias`: The token is the name of a commit alias.
+ * - `type-emoji`: The token is the emoji of a commit type.
+ * - `alias-emoji`: The token is the emoji of a commit alias.
+ */
+export type ResolutionKind = "type" | "alias" | "type-emoji" | "alias-emoji";
+
+interface ResolvedToken<K extends ResolutionKind, A> {
+  /** How the token was resolved. */
+  kind: K;
+  /** The token, as given. @example ":sparkles:" */
+  token: string;
+  /** The commit type the token stands for. */
+  type: CommitType & { index: number };
+  /** The commit alias the token stands for, if any. */
+  alias: A;
+  /** Release type required, after the alias overrides. */
+  semver: ReleaseType | null;
+  /** Whether changes are included in changelog, after the alias overrides. */
+  changelog: boolean;
+}
+
+/**
+ * Result of {@link Configuration.resolve}, discriminated by its `kind`.
+ */
+export type TokenResolution =
+  | ResolvedToken<"type" | "type-emoji", null>
+  | ResolvedToken<"alias" | "alias-emoji", CommitAlias>;
+
+/**
+ * Represents a configuration as a plain object, as returned by
+ * {@link Configuration.toJSON}.
+ */
+export type ConfigurationJSON =
+  & Omit<
+    z.input<typeof ConfigurationSchema>,
+    "scopes" | "order"
+  >
+  & {
+    scopes: Record<string, z.input<typeof ScopeSchema>[]>;
+    order: string[];
+  };
+
+function serializeScope(scope: Scope): z.input<typeof ScopeSchema> {
+  if (scope.description === null && scope.pattern === null) return scope.name;
+
+  const { name, description, pattern } = scope;
+
+  return {
+    name,
+    ...(description !== null && { description }),
+    ...(pattern !== null && { pattern }),
+  };
+}
+
+/**
+ * Represents a configuration definition written in TypeScript. It's the same
+ * as a {@link ConfigurationInput}, but accepts readonly values, so literal
+ * names can be inferred by {@link defineConfiguration}.
+ */
+export type ConfigurationDefinition = {
+  readonly types?: {
+    readonly [name: string]: z.input<typeof CommitTypeSchema>;
+  };
+  readonly aliases?: {
+    readonly [name: string]: z.input<typeof CommitAliasSchema>;
+  };
+  readonly fallback?: string;
+  readonly scopes?: {
+    readonly [name: string]: readonly z.input<typeof ScopeSchema>[];
+  };
+  readonly order?: readonly string[];
+  readonly $schema?: string;
+};
+
+export interface Configuration<
+  D extends ConfigurationDefinition = ConfigurationDefinition,
+> {
+  types: {
+    [K in Configuration.TypeName<D>]: CommitType & { index: number };
+  };
+  aliases: { [K in Configuration.AliasName<D>]: CommitAlias };
+  fallback: Configuration.TypeName<D>;
+  scopes: { [K in Configuration.Name<D>]: Scope[] };
+  order: Configuration.TypeName<D>[];
+}
+
+/**
+ * Configuration class to handle gitmoji configuration data.
+ *
+ * Provides static methods to load configuration from files,
+ * as well as a constructor to create a Configuration instance
+ * from a configuration object.
+ *
+ * @example <caption>Load default configuration from file:</caption>
+ *
+ * ```ts
+ * import { Configuration } from "./configuration.ts";
+ *
+ * const config = Configuration.fromFile("path/to/config.json");
+ * ```
+ *
+ * @example <caption>Load default and custom configuration from files:</caption>
+ *
+ * ```ts
+ * import { Configuration } from "./configuration.ts";
+ *
+ * const config = Configuration.fromFiles("default.json", "custom.json");
+ * ```
+ */
+export class Configuration<
+  D extends ConfigurationDefinition = ConfigurationDefinition,
+> {
+  /**
+   * Finds and loads the configuration that applies to a directory.
+   *
+   * The following layers are merged, each one taking precedence over the
+   * previous ones:
+   *
+   * 1. The `defaults` option, or the built-in `default` preset.
+   * 2. The user-global configuration file (`~/.gitmojirc.json`).
+   * 3. The repository configuration: the first of `.gitmojirc.json`,
+   *    `gitmoji.config.json`, or the `conventionalGitmoji` key of `deno.json`
+   *    or `package.json`, found in `cwd` or in its closest ancestor.
+   * 4. The extra `layers`, in order.
+   * 5. The environment variables listed in {@link CONFIGURATION_ENV_VARIABLES}.
+   *
+   * When the `path` option is given, that file replaces the first three
+   * layers, but the extra layers and the environment variables still apply.
+   *
+   * Like {@link Configuration.fromFiles}, a layer with an `order` replaces the
+   * merged one instead of extending it.
+   *
+   * @param cwd - Directory to start looking from. Defaults to `Deno.cwd()`.
+   * @param options - Optional defaults, global path, extra layers and
+   * environment variables.
+   * @returns Configuration instance. Its {@link Configuration.sources} tell
+   * which layer set each value.
+   *
+   * @example
+   *
+   * ```ts
+   * import { Configuration } from "./configuration.ts";
+   *
+   * const config = Configuration.discover("path/to/repository");
+   *
+   * console.log(config.sources["types.feat.emoji.code"]);
+   * ```
+   */
+  static discover(cwd = Deno.cwd(), options: DiscoverOptions = {}) {
+    const layers = options.path
+      ? [readLayer(resolve(cwd, options.path))]
+      : findLayers(cwd, options);
+
+    for (const layer of options.layers || []) {
+      layers.push(typeof layer === "string" ? readLayer(layer) : layer);
+    }
+
+    layers.push(...readEnvironmentLayers(options.env));
+
+    return Configuration.fromLayers(layers);
+  }
+
+  /**
+   * Create a Configuration instance by merging several configuration layers,
+   * with later layers taking precedence. A layer with an `order` replaces the
+   * merged one instead of extending it.
+   *
+   * A layer that `extends` presets or other files is preceded by them, and so
+   * on recursively. Commit types, aliases and scope lists set to `null` are
+   * removed from the result.
+   *
+   * @param layers - Configuration layers, in order of precedence.
+   * @returns Configuration instance.
+   * @throws {ConfigurationError} If the configuration isn't valid, or if a
+   * file ends up extending itself.
+   *
+   * @example
+   *
+   * ```ts
+   * import { Configuration } from "./configuration.ts";
+   *
+   * // base.json: { "extends": "default", "fallback": "chore" }
+   * const config = Configuration.fromLayers([
+   *   {
+   *     source: "repository",
+   *     value: { extends: "./base.json", aliases: { release: null } },
+   *   },
+   * ]);
+   *
+   * console.assert(config.findAliasByName("release") === null);
+   * ```
+   */
+  static fromLayers(layers: ConfigurationLayer[]) {
+    const expanded = layers.flatMap((layer) => expandLayer(layer));
+    const { merged } = mergeLayers(expanded);
+
+    return new Configuration(merged as ConfigurationProperties, expanded);
+  }
+
+  /**
+   * Create a Configuration instance from a built-in preset, optionally
+   * extended by JSON configuration files.
+   *
+   * The files are merged over the preset in order, with the same semantics as
+   * {@link Configuration.fromFiles}.
+   *
+   * @param name - Name of the preset. See {@link PRESETS}.
+   * @param paths - Paths to JSON configuration files that extend the preset.
+   * @returns Configuration instance.
+   * @throws {Error} If there's no preset with the given name.
+   * @throws {ConfigurationError} If the configuration isn't valid.
+   *
+   * @example
+   *
+   * ```ts
+   * import { Configuration } from "./configuration.ts";
+   *
+   * const config = Configuration.fromPreset("gitmoji", "path/to/custom.json");
+   * ```
+   */
+  static fromPreset(name: PresetName, ...paths: string[]) {
+    if (!Object.hasOwn(PRESETS, name)) {
+      throw new Error(`Unknown preset "${name}".`, {
+        cause: { name, available: Object.keys(PRESETS) },
+      });
+    }
+
+    return Configuration.fromLayers([
+      createPresetLayer(name),
+      ...paths.map(readLayer),
+    ]);
+  }
 
-/**
- * Configuration class to handle gitmoji configuration data.
- *
- * Provides static methods to load configuration from files,
- * as well as a constructor to create a Configuration instance
- * from a configuration object.
- *
- * @example <caption>Load default configuration from file:</caption>
- *
- * ```ts
- * import { Configuration } from "./configuration.ts";
- *
- * const config = Configuration.fromFile("path/to/config.json");
- * ```
- *
- * @example <caption>Load default and custom configuration from files:</caption>
- *
- * ```ts
- * import { Configuration } from "./configuration.ts";
- *
- * const config = Configuration.fromFiles("default.json", "custom.json");
- * ```
- */
-export class Configuration {
   /**
    * Create a Configuration instance from a file containing JSON configuration.
    *
    * @param path - Path to JSON configuration file.
    * @returns Configuration instance.
+   * @throws {ConfigurationError} If the configuration isn't valid.
    */
   static fromFile(path: string) {
-    const raw = Deno.readTextFileSync(path);
-
-    return new Configuration(JSON.parse(raw));
+    return Configuration.fromLayers([readLayer(path)]);
   }
   /**
    * Create Configuration instance from default and custom JSON config files.
@@ -204,27 +1197,309 @@ export class Configuration {
    * @param defaultPath - Path to default JSON configuration.
    * @param customPath - Path to custom JSON configuration.
    * @returns Configuration instance.
+   * @throws {ConfigurationError} If the configuration isn't valid.
    */
   static fromFiles(defaultPath: string, customPath: string) {
-    const rawDefaults = JSON.parse(Deno.readTextFileSync(defaultPath));
-    const rawCustom = JSON.parse(Deno.readTextFileSync(customPath));
-    const merged = deepMerge(rawDefaults, rawCustom);
+    return Configuration.fromLayers([
+      readLayer(defaultPath),
+      readLayer(customPath),
+    ]);
+  }
 
-    if ("order" in rawCustom) {
-      merged.order = rawCustom.order;
-    }
+  #layers: ConfigurationLayer[] = [];
+
+  #sources: Record<string, string> = {};
+
+  #typesByEmoji = new Map<string, CommitType & { index: number }>();
 
-    return new Configuration(merged as ConfigurationProperties);
+  #aliasesByEmoji = new Map<string, CommitAlias>();
+
+  /**
+   * Where each value of the configuration comes from, keyed by its dotted
+   * path. Arrays, like `order` or the lists in `scopes`, are tracked as a
+   * whole. Values changed through methods like {@link Configuration.addType}
+   * come from an `api:` source, like `api:addType`.
+   *
+   * @example { "fallback": "/repo/.gitmojirc.json", "types.feat.title": "defaults" }
+   */
+  get sources(): Readonly<Record<string, string>> {
+    return this.#sources;
   }
 
-  protected constructor(value: z.input<typeof ConfigurationSchema>) {
-    Object.assign(this, ConfigurationSchema.parse(value));
+  protected constructor(
+    value: z.input<typeof ConfigurationSchema>,
+    layers: ConfigurationLayer[] = [],
+  ) {
+    this.#apply(value, layers);
+  }
+
+  #apply(
+    value: z.input<typeof ConfigurationSchema>,
+    layers: ConfigurationLayer[],
+  ) {
+    const result = ConfigurationSchema.safeParse(value);
+
+    if (!result.success) {
+      const problems = result.error.issues.map((issue) =>
+        createProblem(issue, layers)
+      );
+
+      throw new ConfigurationError(problems, { cause: result.error });
+    }
+
+    Object.assign(this, result.data);
 
-    for (const key in this.types) {
-      const commitType = this.types[key];
+    this.#layers = layers;
+    this.#sources = mergeLayers(layers).sources;
 
+    for (const commitType of Object.values(this.#getTypes())) {
       commitType.index = this.order.indexOf(commitType.type);
     }
+
+    this.#typesByEmoji = createEmojiIndex(this.types);
+    this.#aliasesByEmoji = createEmojiIndex(this.aliases);
+  }
+
+  /**
+   * Converts the configuration into a plain object that can be written to a
+   * configuration file and loaded back into an equal configuration.
+   *
+   * The computed `index` of commit types is left out, as well as the empty
+   * scope lists added by default. Scopes with only a name are written as a
+   * string.
+   *
+   * @returns The configuration as a plain object.
+   */
+  public toJSON(): ConfigurationJSON {
+    const types: ConfigurationJSON["types"] = {};
+    const scopes: ConfigurationJSON["scopes"] = {};
+
+    for (const [key, value] of Object.entries(this.#getTypes())) {
+      const { index: _index, ...type } = value;
+
+      types[key] = type;
+    }
+
+    for (const [key, value] of Object.entries<Scope[]>(this.scopes)) {
+      if (value.length > 0) scopes[key] = value.map(serializeScope);
+    }
+
+    return structuredClone({
+      types,
+      aliases: this.aliases,
+      fallback: this.fallback,
+      scopes,
+      order: this.order,
+    });
+  }
+
+  /**
+   * Writes the configuration to a JSON file. See {@link Configuration.toJSON}.
+   *
+   * @param path - Path to the JSON configuration file.
+   */
+  public toFile(path: string) {
+    Deno.writeTextFileSync(path, JSON.stringify(this, null, 2) + "\n");
+  }
+
+  /**
+   * Adds a commit type. It's appended to the `order`, unless it's already
+   * there.
+   *
+   * @param type - The commit type definition.
+   * @returns The configuration, to chain calls.
+   * @throws {Error} If there's already a commit type with the same name.
+   * @throws {ConfigurationError} If the configuration isn't valid anymore.
+   *
+   * @example
+   *
+   * ```ts
+   * import { Configuration } from "./configuration.ts";
+   *
+   * const config = Configuration.fromPreset("default").addType({
+   *   type: "i18n",
+   *   title: "Internationalization",
+   *   description: "Internationalization and localization.",
+   *   semver: "patch",
+   *   changelog: true,
+   *   emoji: { character: "🌐", code: ":globe_with_meridians:", name: "globe_with_meridians" },
+   * });
+   *
+   * console.assert(config.order.at(-1) === "i18n");
+   * ```
+   */
+  public addType(type: z.input<typeof CommitTypeSchema>) {
+    if (Object.hasOwn(this.types, type.type)) {
+      throw new Error(`The commit type "${type.type}" already exists.`, {
+        cause: { type },
+      });
+    }
+
+    const value = this.toJSON();
+
+    value.types[type.type] = type;
+
+    return this.#update(value, "addType", { types: { [type.type]: type } });
+  }
+
+  /**
+   * Adds a commit alias.
+   *
+   * @param alias - The commit alias definition.
+   * @returns The configuration, to chain calls.
+   * @throws {Error} If there's already a commit alias with the same name.
+   * @throws {ConfigurationError} If the configuration isn't valid anymore,
+   * like when the alias points at a commit type that doesn't exist.
+   */
+  public addAlias(alias: z.input<typeof CommitAliasSchema>) {
+    if (Object.hasOwn(this.aliases, alias.name)) {
+      throw new Error(`The commit alias "${alias.name}" already exists.`, {
+        cause: { alias },
+      });
+    }
+
+    const value = this.toJSON();
+
+    value.aliases[alias.name] = alias;
+
+    return this.#update(value, "addAlias", {
+      aliases: { [alias.name]: alias },
+    });
+  }
+
+  /**
+   * Adds a scope to a commit type or alias.
+   *
+   * @param name - The name of the commit type or alias.
+   * @param scope - The scope definition.
+   * @returns The configuration, to chain calls.
+   * @throws {Error} If there's no commit type or alias with the given name.
+   * @throws {ConfigurationError} If the configuration isn't valid anymore.
+   */
+  public addScope(
+    name: Configuration.Name<D>,
+    scope: z.input<typeof ScopeSchema>,
+  ) {
+    if (
+      !Object.hasOwn(this.types, name) && !Object.hasOwn(this.aliases, name)
+    ) {
+      throw new Error(`There's no commit type or alias named "${name}".`, {
+        cause: { name, scope },
+      });
+    }
+
+    const value = this.toJSON();
+
+    value.scopes[name] = [...(value.scopes[name] || []), scope];
+
+    return this.#update(value, "addScope", {
+      scopes: { [name]: value.scopes[name] },
+    });
+  }
+
+  /**
+   * Changes the order of the commit types. Commit types left out are
+   * appended in their current order.
+   *
+   * @param order - Names of the commit types, in the new order.
+   * @returns The configuration, to chain calls.
+   * @throws {ConfigurationError} If an entry isn't a commit type.
+   */
+  public reorder(order: Configuration.TypeName<D>[]) {
+    const value = this.toJSON();
+
+    value.order = [
+      ...order,
+      ...this.order.filter((type) => !order.includes(type)),
+    ];
+
+    return this.#update(value, "reorder", { order: value.order });
+  }
+
+  /**
+   * Applies a change made through a method, keeping the change as a layer so
+   * sources and problems point at it.
+   */
+  #update(
+    value: ConfigurationJSON,
+    method: string,
+    change: ConfigurationInput,
+  ) {
+    this.#apply(value, [...this.#layers, {
+      source: `api:${method}`,
+      value: change,
+    }]);
+
+    return this;
+  }
+
+  /**
+   * Resolves a token written in a commit, which can be the name of a commit
+   * type or alias, or an emoji code or character.
+   *
+   * Names are looked up before emojis, and commit types before aliases. The
+   * `semver` and `changelog` of the result are the ones of the alias if
+   * there's one, and the ones of the commit type otherwise.
+   *
+   * @param token - The token to resolve.
+   * @returns What the token matched, or `null` if it didn't match anything.
+   *
+   * @example
+   *
+   * ```ts
+   * import { Configuration } from "./configuration.ts";
+   *
+   * const config = Configuration.fromPreset("gitmoji");
+   * const resolved = config.resolve("🚑️");
+   *
+   * console.assert(resolved?.kind === "alias-emoji");
+   * console.assert(resolved?.type.type === "fix");
+   * console.assert(resolved?.semver === "patch");
+   * ```
+   */
+  public resolve(token: string): TokenResolution | null {
+    const type = this.findTypeByName(token as Configuration.TypeName<D>);
+
+    if (type !== null) return this.#resolveType("type", token, type);
+
+    const alias = this.findAliasByName(token as Configuration.AliasName<D>);
+
+    if (alias !== null) return this.#resolveAlias("alias", token, alias);
+
+    const typeByEmoji = findInEmojiIndex(this.#typesByEmoji, token);
+
+    if (typeByEmoji !== null) {
+      return this.#resolveType("type-emoji", token, typeByEmoji);
+    }
+
+    const aliasByEmoji = findInEmojiIndex(this.#aliasesByEmoji, token);
+
+    if (aliasByEmoji !== null) {
+      return this.#resolveAlias("alias-emoji", token, aliasByEmoji);
+    }
+
+    return null;
+  }
+
+  #resolveType(
+    kind: "type" | "type-emoji",
+    token: string,
+    type: CommitType & { index: number },
+  ): TokenResolution {
+    const { semver, changelog } = type;
+
+    return { kind, token, type, alias: null, semver, changelog };
+  }
+
+  #resolveAlias(
+    kind: "alias" | "alias-emoji",
+    token: string,
+    alias: CommitAlias,
+  ): TokenResolution {
+    const { semver, changelog } = alias;
+    const type = this.types[alias.type as Configuration.TypeName<D>];
+
+    return { kind, token, type, alias, semver, changelog };
   }
 
   /**
@@ -233,8 +1508,8 @@ export class Configuration {
    * @param name - The name of the commit type to find.
    * @returns The commit type configuration if found, `null` otherwise.
    */
-  public findTypeByName(name: string) {
-    if (name in this.types) {
+  public findTypeByName(name: Configuration.TypeName<D>) {
+    if (Object.hasOwn(this.types, name)) {
       return this.types[name];
     }
 
@@ -251,40 +1526,126 @@ export class Configuration {
    * @returns The commit type configuration if the alias is found,
    * `null` otherwise'
    */
-  public findTypeByAliasName(name: string) {
+  public findTypeByAliasName(name: Configuration.AliasName<D>) {
     const alias = this.findAliasByName(name);
 
     if (alias === null) return null;
 
-    return this.findTypeByName(alias.type);
+    return this.findTypeByName(alias.type as Configuration.TypeName<D>);
   }
 
   /**
-   * Finds a commit type configuration by an emoji code.
+   * Finds a commit type configuration by an emoji code. Alternative
+   * shortcodes, like `:high_voltage:` for `:zap:`, are matched too, but emoji
+   * characters aren't.
    *
    * @param emoji - Emoji code string to find
    * @returns Commit type if found, `null` otherwise
    */
   public findTypeByEmojiCode(emoji: string) {
-    for (const key in this.types) {
-      const type = this.types[key];
+    if (!EMOJI_CODE_REGEX.test(emoji)) return null;
 
-      if (type.emoji.code === emoji) {
-        return type;
-      }
+    return findInEmojiIndex(this.#typesByEmoji, emoji);
+  }
+
+  /**
+   * Finds a commit type configuration by an emoji character, ignoring
+   * variation selectors, so `⚡` and `⚡️` are the same emoji. Emoji codes
+   * aren't matched.
+   *
+   * @param emoji - Emoji character to find.
+   * @returns Commit type if found, `null` otherwise.
+   */
+  public findTypeByEmojiCharacter(emoji: string) {
+    if (EMOJI_CODE_REGEX.test(emoji)) return null;
+
+    return findInEmojiIndex(this.#typesByEmoji, emoji);
+  }
+
+  /**
+   * Finds the scope definition that matches a scope written in a commit.
+   *
+   * The scopes of a commit alias are used when it has any. Otherwise, the
+   * scopes of its commit type are used.
+   *
+   * @param name - The name of the commit type or alias.
+   * @param scope - The scope written in the commit.
+   * @returns The matching scope definition if found, `null` otherwise.
+   */
+  public findScope<N extends Configuration.Name<D>>(
+    name: N,
+    scope: Configuration.ScopeName<D, N>,
+  ) {
+    for (const definition of this.getScopes(name)) {
+      if (matchesScope(definition, scope as string)) return definition;
     }
 
     return null;
   }
 
+  /**
+   * Gets the scopes allowed for a commit type or alias.
+   *
+   * A commit alias without scopes of its own inherits the scopes of its
+   * commit type.
+   *
+   * @param name - The name of the commit type or alias.
+   * @returns The scope definitions, which can be empty.
+   */
+  public getScopes(name: Configuration.Name<D>): Scope[] {
+    const scopes = Object.hasOwn(this.scopes, name) ? this.scopes[name] : [];
+    const alias = this.findAliasByName(name as Configuration.AliasName<D>);
+
+    if (scopes.length === 0 && alias !== null) {
+      return this.scopes[alias.type as Configuration.Name<D>] || [];
+    }
+
+    return scopes;
+  }
+
+  /**
+   * Replaces emoji shortcodes like `:sparkles:` with their characters. The
+   * emojis of the commit types and aliases take precedence over the bundled
+   * shortcodes.
+   *
+   * @param text - The text to convert.
+   * @returns The text with emoji characters instead of shortcodes.
+   */
+  public emojify(text: string) {
+    return emojify(text, this.#getEmojis());
+  }
+
+  /**
+   * Replaces emoji characters with their shortcodes, like `✨` with
+   * `:sparkles:`. The emojis of the commit types and aliases take precedence
+   * over the bundled shortcodes.
+   *
+   * @param text - The text to convert.
+   * @returns The text with shortcodes instead of emoji characters.
+   */
+  public demojify(text: string) {
+    return demojify(text, this.#getEmojis());
+  }
+
+  #getEmojis() {
+    return [
+      ...Object.values(this.#getTypes()).map((type) => type.emoji),
+      ...Object.values<CommitAlias>(this.aliases).map((alias) => alias.emoji),
+    ];
+  }
+
+  #getTypes(): Record<string, CommitType & { index: number }> {
+    return this.types;
+  }
+
   /**
    * Finds a commit alias configuration by its name.
    *
    * @param name - The name of the commit alias to find.
    * @returns The commit alias configuration if found, `null` otherwise.
    */
-  public findAliasByName(name: string) {
-    if (name in this.aliases) {
+  public findAliasByName(name: Configuration.AliasName<D>) {
+    if (Object.hasOwn(this.aliases, name)) {
       return this.aliases[name];
     }
 
@@ -292,20 +1653,271 @@ export class Configuration {
   }
 
   /**
-   * Finds a commit type configuration by an emoji code.
+   * Finds a commit type configuration by an emoji code. Alternative
+   * shortcodes, like `:high_voltage:` for `:zap:`, are matched too, but emoji
+   * characters aren't.
    *
    * @param emoji - Emoji code string to find
    * @returns Commit type if found, `null` otherwise
    */
   public findAliasByEmojiCode(emoji: string) {
-    for (const key in this.aliases) {
-      const alias = this.aliases[key];
+    if (!EMOJI_CODE_REGEX.test(emoji)) return null;
+
+    return findInEmojiIndex(this.#aliasesByEmoji, emoji);
+  }
+
+  /**
+   * Finds a commit alias configuration by an emoji character, ignoring
+   * variation selectors, so `⚡` and `⚡️` are the same emoji. Emoji codes
+   * aren't matched.
+   *
+   * @param emoji - Emoji character to find.
+   * @returns Commit alias if found, `null` otherwise.
+   */
+  public findAliasByEmojiCharacter(emoji: string) {
+    if (EMOJI_CODE_REGEX.test(emoji)) return null;
+
+    return findInEmojiIndex(this.#aliasesByEmoji, emoji);
+  }
+}
+
+/**
+ * Creates a configuration from a definition written in TypeScript.
+ *
+ * The names of the commit types, aliases and scopes of the definition are
+ * kept as literal types, so using a name that isn't defined is a compile
+ * error. The definition must be complete, like a configuration file loaded
+ * with {@link Configuration.fromFile}.
+ *
+ * @param definition - The configuration definition.
+ * @returns Configuration instance.
+ * @throws {ConfigurationError} If the configuration isn't valid.
+ *
+ * @example
+ *
+ * ```ts
+ * import { defineConfiguration } from "./configuration.ts";
+ *
+ * const config = defineConfiguration({
+ *   types: {
+ *     feat: {
+ *       type: "feat",
+ *       title: "Features",
+ *       description: "A new feature.",
+ *       semver: "minor",
+ *       changelog: true,
+ *       emoji: { character: "✨", code: ":sparkles:", name: "sparkles" },
+ *     },
+ *   },
+ *   aliases: {},
+ *   fallback: "feat",
+ *   scopes: { feat: ["api", "ui"] },
+ * });
+ *
+ * config.findScope("feat", "api");
+ * // @ts-expect-error: `feta` is not a commit type.
+ * config.findTypeByName("feta");
+ * ```
+ */
+export function defineConfiguration<const D extends ConfigurationDefinition>(
+  definition: D,
+) {
+  const layer = {
+    source: "definition",
+    value: definition as ConfigurationInput,
+  };
+
+  return Configuration.fromLayers([layer]) as unknown as Configuration<D>;
+}
+
+/**
+ * Gets the names of the scopes of a scope list, including `string` when a
+ * scope has a pattern, as any value matching it is allowed.
+ *
+ * @ignore
+ */
+type ScopeListNames<L> = L extends readonly (infer E)[] ? E extends string ? E
+  : E extends { name: infer K extends string; pattern: string }
+    ? K | (string & Record<never, never>)
+  : E extends { name: infer K extends string } ? K
+  : string
+  : never;
+
+/**
+ * @ignore
+ */
+type KeysOf<T> = unknown extends T ? string
+  : string extends keyof NonNullable<T> ? string
+  : keyof NonNullable<T> & string;
+
+/**
+ * @ignore
+ */
+type ValueOf<T, K> = K extends keyof NonNullable<T> ? NonNullable<T>[K]
+  : never;
+
+// deno-lint-ignore no-namespace
+export namespace Configuration {
+  /**
+   * Names of the commit types of a configuration definition. It's `string`
+   * when the names aren't known at compile time.
+   */
+  export type TypeName<D extends ConfigurationDefinition> = KeysOf<D["types"]>;
+
+  /**
+   * Names of the commit aliases of a configuration definition. It's `string`
+   * when the names aren't known at compile time.
+   */
+  export type AliasName<D extends ConfigurationDefinition> = KeysOf<
+    D["aliases"]
+  >;
+
+  /**
+   * Names of the commit types and aliases of a configuration definition.
+   */
+  export type Name<D extends ConfigurationDefinition> =
+    | TypeName<D>
+    | AliasName<D>;
+
+  /**
+   * Names of the scopes allowed for a commit type or alias. An alias without
+   * scopes of its own has the scopes of its commit type, and any scope is
+   * allowed when there are no scopes at all.
+   *
+   * @example
+   *
+   * ```ts
+   * import { Configuration } from "./configuration.ts";
+   *
+   * type Definition = {
+   *   aliases: { hotfix: { type: "fix" } };
+   *   scopes: { fix: ["api", { name: "packages"; pattern: "pkg-*" }] };
+   * };
+   *
+   * // "api" | "packages" | (string & Record<never, never>)
+   * type Scopes = Configuration.ScopeName<Definition, "hotfix">;
+   * ```
+   */
+  export type ScopeName<
+    D extends ConfigurationDefinition,
+    N extends string,
+  > = [ScopeListNames<ValueOf<D["scopes"], N>>] extends [never]
+    ? [ScopeListNames<ValueOf<D["scopes"], AliasType<D, N>>>] extends [never]
+      ? string
+    : ScopeListNames<ValueOf<D["scopes"], AliasType<D, N>>>
+    : ScopeListNames<ValueOf<D["scopes"], N>>;
+
+  /**
+   * Name of the commit type a commit alias points at.
+   */
+  export type AliasType<D extends ConfigurationDefinition, N extends string> =
+    ValueOf<D["aliases"], N> extends { type: infer T extends string } ? T
+      : never;
+}
+
+function formatProblemSource(problem: ConfigurationProblem) {
+  const source = problem.source || "configuration";
+
+  if (problem.location === null) return source;
+
+  return `${source}:${problem.location.line}:${problem.location.column}`;
+}
 
-      if (alias.emoji.code === emoji) {
-        return alias;
+function formatProblemPath(problem: ConfigurationProblem) {
+  return problem.path.length > 0 ? ` at ${problem.path.join(".")}` : "";
+}
+
+/**
+ * Error thrown when a configuration isn't valid, either because a file isn't
+ * valid JSON or because some values don't match the schema.
+ *
+ * Each problem tells which file set the invalid value and where. Use
+ * {@link ConfigurationError.format} to get a report suitable for terminals.
+ *
+ * @example
+ *
+ * ```ts
+ * import { Configuration, ConfigurationError } from "./configuration.ts";
+ *
+ * try {
+ *   Configuration.fromFile("path/to/invalid.json");
+ * } catch (error) {
+ *   if (error instanceof ConfigurationError) {
+ *     console.error(error.format());
+ *   }
+ * }
+ * ```
+ */
+export class ConfigurationError extends Error {
+  override name = "ConfigurationError";
+
+  /**
+   * @param problems - The problems found in the configuration.
+   * @param options - Error options, like the original error as `cause`.
+   */
+  constructor(
+    readonly problems: ConfigurationProblem[],
+    options?: ErrorOptions,
+  ) {
+    const list = problems
+      .map((p) =>
+        `${formatProblemSource(p)}${formatProblemPath(p)}: ${p.message}`
+      )
+      .join("; ");
+
+    super(`The configuration isn't valid: ${list}`, options);
+  }
+
+  /**
+   * Formats the problems as a multi-line report, with the line of each
+   * invalid value and a description of what was expected.
+   *
+   * @returns The report.
+   *
+   * @example
+   *
+   * ```text
+   * The configuration isn't valid, 1 problem found.
+   *
+   * .gitmojirc.json:7:17 at types.feat.emoji.code
+   *   Invalid
+   *   Expected: A valid emoji code. Example: `:fire:`.
+   *
+   *    7 |         "code": "sparkles",
+   *      |                 ^
+   * ```
+   */
+  format() {
+    const count = this.problems.length;
+    const blocks = [
+      `The configuration isn't valid, ${count} ` +
+      `${count === 1 ? "problem" : "problems"} found.`,
+    ];
+
+    for (const problem of this.problems) {
+      const lines = [
+        formatProblemSource(problem) + formatProblemPath(problem),
+        `  ${problem.message}`,
+      ];
+
+      if (problem.expected !== null) {
+        lines.push(`  Expected: ${problem.expected}`);
+      }
+
+      if (problem.location !== null && problem.excerpt !== null) {
+        const { line, column } = problem.location;
+        const gutter = " ".repeat(String(line).length);
+
+        lines.push(
+          "",
+          `  ${line} | ${problem.excerpt}`,
+          `  ${gutter} | ${" ".repeat(column - 1)}^`,
+        );
       }
+
+      blocks.push(lines.join("\n"));
     }
 
-    return null;
+    return blocks.join("\n\n") + "\n";
   }
 }
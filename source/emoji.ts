@@ -1,5 +1,6 @@
 import z from "https://deno.land/x/zod@v3.22.4/index.ts";
 import emojiRegex from "https://esm.sh/emoji-regex@10.3.0/index.mjs";
+import { EMOJI_SHORTCODES } from "./shortcodes.ts";
 
 /**
  * Regular expression to match emoji code strings like :unicorn:.
@@ -75,6 +76,26 @@ export const EMOJI_CODE_REGEX_GLOBAL = /:\w+:/g;
  */
 export const EMOJI_CHAR_REGEX_GLOBAL: RegExp = emojiRegex();
 
+/**
+ * Regular expression to match a single emoji character, like 🦄, ⚡️ or 👩🏽‍💻.
+ *
+ * Unlike {@link EMOJI_CHAR_REGEX_GLOBAL}, the whole string must be one emoji,
+ * optionally followed by a variation selector.
+ *
+ * @example
+ *
+ * ```ts
+ * import { EMOJI_CHAR_REGEX } from "./emoji.ts";
+ *
+ * console.assert(EMOJI_CHAR_REGEX.test("⚡️"));
+ * console.assert(EMOJI_CHAR_REGEX.test("abc✨") === false);
+ * console.assert(EMOJI_CHAR_REGEX.test("✨✨") === false);
+ * ```
+ */
+export const EMOJI_CHAR_REGEX = new RegExp(
+  `^(?:${EMOJI_CHAR_REGEX_GLOBAL.source})[\\uFE0E\\uFE0F]?$`,
+);
+
 /**
  * Schema that validates emoji objects containing the emoji character, code, and name.
  *
@@ -97,7 +118,9 @@ export const EmojiObjectSchema = z
     /** A valid emoji character. @example "🔥" */
     character: z
       .string()
-      .regex(EMOJI_CHAR_REGEX_GLOBAL)
+      .refine((value) => EMOJI_CHAR_REGEX.test(value), {
+        message: "Expected a single emoji character.",
+      })
       .describe("A valid emoji character. Example: `🔥`."),
     /** A valid emoji code. @example ":fire:" */
     code: z
@@ -110,3 +133,214 @@ export const EmojiObjectSchema = z
     ),
   })
   .describe("Emoji object containing the emoji character, code, and name.");
+
+/**
+ * Represents an emoji object containing the emoji character, code, and name.
+ */
+export type EmojiObject = z.TypeOf<typeof EmojiObjectSchema>;
+
+/**
+ * Regular expression to match shortcodes like `:sparkles:`, optionally
+ * followed by a skin tone like `:+1::skin-tone-3:`.
+ */
+const SHORTCODE_REGEX = /:([\w+-]+):(?::skin-tone-([2-6]):)?/g;
+
+/**
+ * Regular expression to match emoji characters, including a trailing
+ * variation selector that isn't part of the emoji.
+ */
+const EMOJI_SEQUENCE_REGEX = new RegExp(
+  `(?:${EMOJI_CHAR_REGEX_GLOBAL.source})[\\uFE0E\\uFE0F]?`,
+  "g",
+);
+
+const VARIATION_SELECTOR_REGEX = /[\uFE0E\uFE0F]/g;
+
+const SKIN_TONE_REGEX = /^[\u{1F3FB}-\u{1F3FF}]$/u;
+
+/**
+ * Skin tone modifiers, from `skin-tone-2` to `skin-tone-6`.
+ */
+const SKIN_TONES = ["🏻", "🏼", "🏽", "🏾", "🏿"];
+
+function stripVariationSelectors(character: string) {
+  return character.replace(VARIATION_SELECTOR_REGEX, "");
+}
+
+function createShortcodeTables(emojis: EmojiObject[]) {
+  const characters = new Map<string, string>();
+  const names = new Map<string, string>();
+  const entries = [
+    ...emojis.map((emoji) => [emoji.code.slice(1, -1), emoji.character]),
+    ...Object.entries(EMOJI_SHORTCODES),
+  ];
+
+  for (const [name, character] of entries) {
+    const key = stripVariationSelectors(character);
+
+    if (!characters.has(name)) characters.set(name, character);
+    if (!names.has(key)) names.set(key, name);
+  }
+
+  return { characters, names };
+}
+
+const BUNDLED_SHORTCODE_TABLES = createShortcodeTables([]);
+
+function getShortcodeTables(emojis: EmojiObject[]) {
+  if (emojis.length === 0) return BUNDLED_SHORTCODE_TABLES;
+
+  return createShortcodeTables(emojis);
+}
+
+/**
+ * Adds a skin tone modifier to the first code point of an emoji, dropping its
+ * variation selector. For ZWJ sequences, the modifier applies to the first
+ * person, like `👩🏽‍💻`.
+ */
+function applySkinTone(character: string, tone: string) {
+  const [first, ...rest] = Array.from(character);
+
+  if (rest[0] === "\uFE0F") rest.shift();
+
+  return first + tone + rest.join("");
+}
+
+/**
+ * Splits an emoji with a single skin tone modifier, right after its first
+ * code point, into the emoji without it and the tone number.
+ */
+function splitSkinTone(character: string) {
+  const [first, modifier, ...rest] = Array.from(character);
+
+  if (modifier === undefined || !SKIN_TONE_REGEX.test(modifier)) return null;
+  if (rest.some((codePoint) => SKIN_TONE_REGEX.test(codePoint))) return null;
+
+  return {
+    base: first + rest.join(""),
+    tone: SKIN_TONES.indexOf(modifier) + 2,
+  };
+}
+
+/**
+ * Replaces emoji shortcodes like `:sparkles:` with their characters.
+ *
+ * Shortcodes are looked up in the given emojis first, usually the ones of
+ * the configured commit types and aliases, and then in
+ * {@link EMOJI_SHORTCODES}. A shortcode can be followed by a skin tone, like
+ * `:+1::skin-tone-3:`. Unknown shortcodes are left as they are.
+ *
+ * @param text - The text to convert.
+ * @param emojis - Emojis that take precedence over the bundled shortcodes.
+ * @returns The text with emoji characters instead of shortcodes.
+ *
+ * @example
+ *
+ * ```ts
+ * import { emojify } from "./emoji.ts";
+ *
+ * console.assert(emojify(":sparkles: feat: add pagination") === "✨ feat: add pagination");
+ * console.assert(emojify(":+1::skin-tone-3:") === "👍🏼");
+ * ```
+ */
+export function emojify(text: string, emojis: EmojiObject[] = []) {
+  const { characters } = getShortcodeTables(emojis);
+
+  return text.replace(SHORTCODE_REGEX, (match, name: string, tone?: string) => {
+    const character = characters.get(name);
+
+    if (character === undefined) return match;
+    if (tone === undefined) return character;
+
+    return applySkinTone(character, SKIN_TONES[Number(tone) - 2]);
+  });
+}
+
+/**
+ * Replaces emoji characters with their shortcodes, like `✨` with
+ * `:sparkles:`.
+ *
+ * Characters are looked up in the given emojis first and then in
+ * {@link EMOJI_SHORTCODES}, ignoring variation selectors, so `⚡` and `⚡️`
+ * are both `:zap:`. ZWJ sequences are converted as a whole, and an emoji with
+ * a skin tone is converted into its shortcode followed by the tone, like
+ * `:+1::skin-tone-3:`. Unknown characters are left as they are.
+ *
+ * @param text - The text to convert.
+ * @param emojis - Emojis that take precedence over the bundled shortcodes.
+ * @returns The text with shortcodes instead of emoji characters.
+ *
+ * @example
+ *
+ * ```ts
+ * import { demojify } from "./emoji.ts";
+ *
+ * console.assert(demojify("✨ feat: add pagination") === ":sparkles: feat: add pagination");
+ * console.assert(demojify("👩🏽‍💻") === ":woman_technologist::skin-tone-4:");
+ * ```
+ */
+export function demojify(text: string, emojis: EmojiObject[] = []) {
+  const { names } = getShortcodeTables(emojis);
+
+  return text.replace(EMOJI_SEQUENCE_REGEX, (match) => {
+    const name = names.get(stripVariationSelectors(match));
+
+    if (name !== undefined) return `:${name}:`;
+
+    const toned = splitSkinTone(stripVariationSelectors(match));
+    const base = toned && names.get(toned.base);
+
+    if (!toned || base === undefined) return match;
+
+    return `:${base}::skin-tone-${toned.tone}:`;
+  });
+}
+
+/**
+ * Normalizes an emoji code or character into a canonical form, so different
+ * ways of writing the same emoji can be compared.
+ *
+ * Codes are converted into their characters, including alternative
+ * shortcodes like `:high_voltage:` for `:zap:`, and variation selectors are
+ * removed. Unknown codes are returned as they are.
+ *
+ * @param value - An emoji code or character.
+ * @param emojis - Emojis that take precedence over the bundled shortcodes.
+ * @returns The canonical form of the emoji.
+ *
+ * @example
+ *
+ * ```ts
+ * import { normalizeEmoji } from "./emoji.ts";
+ *
+ * console.assert(normalizeEmoji("⚡️") === "⚡");
+ * console.assert(normalizeEmoji(":zap:") === "⚡");
+ * console.assert(normalizeEmoji(":high_voltage:") === "⚡");
+ * ```
+ */
+export function normalizeEmoji(value: string, emojis: EmojiObject[] = []) {
+  return stripVariationSelectors(emojify(value.trim(), emojis));
+}
+
+/**
+ * Checks whether two emoji codes or characters stand for the same emoji.
+ * See {@link normalizeEmoji}.
+ *
+ * @param a - An emoji code or character.
+ * @param b - Another emoji code or character.
+ * @param emojis - Emojis that take precedence over the bundled shortcodes.
+ * @returns `true` if both are the same emoji, `false` otherwise.
+ *
+ * @example
+ *
+ * ```ts
+ * import { isSameEmoji } from "./emoji.ts";
+ *
+ * console.assert(isSameEmoji("✨", "✨\uFE0F"));
+ * console.assert(isSameEmoji(":zap:", "⚡"));
+ * console.assert(isSameEmoji(":zap:", ":fire:") === false);
+ * ```
+ */
+export function isSameEmoji(a: string, b: string, emojis: EmojiObject[] = []) {
+  return normalizeEmoji(a, emojis) === normalizeEmoji(b, emojis);
+}
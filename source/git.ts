@@ -0,0 +1,219 @@
+import { resolve } from "https://deno.land/std@0.208.0/path/mod.ts";
+import { parseCommit, ParsedCommit } from "./commit.ts";
+import { Configuration } from "./configuration.ts";
+
+/**
+ * Separates the commits in the output of `git log`.
+ */
+const RECORD_SEPARATOR = "\x1e";
+
+/**
+ * Separates the fields of a commit in the output of `git log`.
+ */
+const FIELD_SEPARATOR = "\x1f";
+
+/**
+ * Format of each commit in the output of `git log`: hash, author name, author
+ * email, author date and raw message. The names of the changed files follow
+ * the last separator.
+ */
+const LOG_FORMAT = RECORD_SEPARATOR +
+  ["%H", "%an", "%ae", "%aI", "%B", ""].join(FIELD_SEPARATOR);
+
+/**
+ * Represents a commit read from a git repository.
+ */
+export interface GitCommit {
+  /** Full hash of the commit. */
+  hash: string;
+  /** Author of the commit. */
+  author: { name: string; email: string };
+  /** Date the commit was authored. */
+  date: Date;
+  /** The full commit message. */
+  message: string;
+  /** Paths of the files changed by the commit, relative to the repository. */
+  files: string[];
+  /** The commit message, parsed and resolved against the configuration. */
+  commit: ParsedCommit;
+}
+
+/**
+ * Options for {@link readCommits}.
+ */
+export interface ReadCommitsOptions {
+  /** Directory of the repository. Defaults to `Deno.cwd()`. */
+  cwd?: string;
+  /**
+   * Range of commits to read, in any form accepted by `git log`. Defaults to
+   * the commits since the latest tag, or every commit if there are no tags.
+   *
+   * @example "v1.2.0..HEAD"
+   */
+  range?: string;
+}
+
+/**
+ * Runs `git` with the given arguments.
+ *
+ * @param args - Arguments passed to `git`.
+ * @param cwd - Directory to run `git` in.
+ * @returns The standard output of the command.
+ * @throws {Error} If `git` exits with an error.
+ */
+function runGit(args: string[], cwd: string) {
+  const { success, code, stdout, stderr } = new Deno.Command("git", {
+    args,
+    cwd,
+    stdout: "piped",
+    stderr: "piped",
+  }).outputSync();
+  const decoder = new TextDecoder();
+
+  if (!success) {
+    const message = decoder.decode(stderr).trim();
+
+    throw new Error(`The git command failed: ${message}`, {
+      cause: { args, cwd, code, message },
+    });
+  }
+
+  return decoder.decode(stdout);
+}
+
+function parseRecord(record: string, config: Configuration): GitCommit {
+  const [hash, name, email, date, raw, files] = record.split(FIELD_SEPARATOR);
+  const message = raw.trimEnd();
+
+  return {
+    hash,
+    author: { name, email },
+    date: new Date(date),
+    message,
+    files: files.split("\n").filter((path) => path !== ""),
+    commit: parseCommit(message, config),
+  };
+}
+
+/**
+ * Gets the latest tag reachable from `HEAD`.
+ *
+ * @param cwd - Directory of the repository. Defaults to `Deno.cwd()`.
+ * @returns The name of the tag, or `null` if there are no tags.
+ */
+export function getLatestTag(cwd = Deno.cwd()) {
+  try {
+    return runGit(["describe", "--tags", "--abbrev=0"], cwd).trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Gets the directory git runs the hooks of a repository from. It's the
+ * `core.hooksPath` directory if set, or the `hooks` directory of the
+ * repository otherwise.
+ *
+ * @param cwd - Directory of the repository. Defaults to `Deno.cwd()`.
+ * @returns The absolute path of the hooks directory.
+ * @throws {Error} If the directory isn't a repository.
+ */
+export function getHooksPath(cwd = Deno.cwd()) {
+  const root = runGit(["rev-parse", "--show-toplevel"], cwd).trim();
+
+  try {
+    // `--path` expands a leading `~` like git does, and relative hooks paths
+    // are relative to the root of the working tree.
+    const hooksPath = runGit(["config", "--path", "core.hooksPath"], cwd);
+
+    return resolve(root, hooksPath.trim());
+  } catch {
+    return resolve(
+      cwd,
+      runGit(["rev-parse", "--git-path", "hooks"], cwd).trim(),
+    );
+  }
+}
+
+/**
+ * Gets the name of the current branch.
+ *
+ * @param cwd - Directory of the repository. Defaults to `Deno.cwd()`.
+ * @returns The branch name, or `null` if `HEAD` isn't a branch.
+ */
+export function getCurrentBranch(cwd = Deno.cwd()) {
+  try {
+    return runGit(["symbolic-ref", "--short", "HEAD"], cwd).trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Gets the paths of the files staged for the next commit.
+ *
+ * @param cwd - Directory of the repository. Defaults to `Deno.cwd()`.
+ * @returns The paths, relative to the root of the repository.
+ * @throws {Error} If the directory isn't a repository.
+ */
+export function getStagedFiles(cwd = Deno.cwd()) {
+  const output = runGit([
+    "-c",
+    "core.quotePath=false",
+    "diff",
+    "--cached",
+    "--name-only",
+  ], cwd);
+
+  return output.split("\n").filter((path) => path !== "");
+}
+
+/**
+ * Reads the commits of a local git repository and resolves their commit
+ * types against the given configuration.
+ *
+ * Commits are returned newest first, like `git log` does. Merge commits have
+ * no changed files.
+ *
+ * @param config - Configuration used to resolve the commit types.
+ * @param options - Optional repository directory and range of commits.
+ * @returns The commits in the range.
+ * @throws {Error} If `git` isn't installed, the directory isn't a repository
+ * or the range isn't valid.
+ *
+ * @example
+ *
+ * ```ts
+ * import { Configuration } from "./configuration.ts";
+ * import { readCommits } from "./git.ts";
+ *
+ * const config = Configuration.discover();
+ * const commits = readCommits(config, { range: "v1.2.0..HEAD" });
+ *
+ * for (const { hash, commit } of commits) {
+ *   console.log(hash.slice(0, 7), commit.commitType.type, commit.subject);
+ * }
+ * ```
+ */
+export function readCommits(
+  config: Configuration,
+  options: ReadCommitsOptions = {},
+): GitCommit[] {
+  const cwd = options.cwd || Deno.cwd();
+  const tag = options.range === undefined ? getLatestTag(cwd) : null;
+  const range = options.range || (tag === null ? "HEAD" : `${tag}..HEAD`);
+  const output = runGit([
+    "-c",
+    "core.quotePath=false",
+    "log",
+    `--format=${LOG_FORMAT}`,
+    "--name-only",
+    range,
+    "--",
+  ], cwd);
+
+  return output
+    .split(RECORD_SEPARATOR)
+    .filter((record) => record !== "")
+    .map((record) => parseRecord(record, config));
+}
@@ -0,0 +1,254 @@
+import { resolve } from "https://deno.land/std@0.208.0/path/mod.ts";
+import { cutAtScissors, formatCommit } from "./commit.ts";
+import { writeCommitMessage } from "./composer.ts";
+import { Configuration } from "./configuration.ts";
+import { getCurrentBranch, getHooksPath, getStagedFiles } from "./git.ts";
+
+/**
+ * Comment written in the hooks installed by {@link installHooks}, to tell them
+ * apart from the hooks installed by other tools.
+ */
+const HOOK_MARKER = "# Installed by conventional-gitmoji.";
+
+/**
+ * Command-line tool called by the installed hooks. It needs to read the
+ * configuration and write the commit message file.
+ */
+const DEFAULT_HOOK_COMMAND =
+  `deno run --allow-read --allow-write --allow-env --allow-run=git '${
+    import.meta.resolve("./cli.ts")
+  }'`;
+
+/**
+ * Commit types inferred from the staged files when every file matches the
+ * same pattern, in order of precedence.
+ */
+const STAGED_FILE_TYPES: [type: string, pattern: RegExp][] = [
+  ["test", /(^|\/)(tests?|__tests__|spec)\/|[._](test|spec)\.[^/]+$/i],
+  ["docs", /(^|\/)docs?\/|\.(md|mdx|rst|txt)$/i],
+  ["ci", /^(\.github\/workflows|\.circleci)\/|^\.gitlab-ci\.ya?ml$/],
+];
+
+/**
+ * Names of the git hooks installed by {@link installHooks}.
+ */
+export const HOOK_NAMES = ["commit-msg", "prepare-commit-msg"] as const;
+
+/**
+ * Name of a git hook installed by {@link installHooks}.
+ */
+export type HookName = typeof HOOK_NAMES[number];
+
+/**
+ * Options of {@link installHooks}.
+ */
+export interface InstallHooksOptions {
+  /** Directory of the repository. Defaults to `Deno.cwd()`. */
+  cwd?: string;
+  /**
+   * Command the hooks run the command-line tool with. Defaults to
+   * `deno run` with the `cli.ts` module next to this one.
+   */
+  command?: string;
+}
+
+/**
+ * Represents what {@link installHooks} did with a hook.
+ *
+ * - `installed`: The hook didn't exist and was written.
+ * - `updated`: The hook was installed before and was written again.
+ * - `skipped`: Another hook already exists and was left as is.
+ */
+export interface HookInstallation {
+  /** Name of the hook. */
+  name: HookName;
+  /** Absolute path of the hook file. */
+  path: string;
+  /** What was done with the hook. */
+  status: "installed" | "updated" | "skipped";
+}
+
+/**
+ * Options of {@link prefillCommitMessage}.
+ */
+export interface PrefillOptions {
+  /** Directory of the repository. Defaults to `Deno.cwd()`. */
+  cwd?: string;
+  /**
+   * Source of the commit message given by git to the `prepare-commit-msg`
+   * hook, like `message` or `merge`. Messages that have a source are left as
+   * is.
+   */
+  source?: string;
+}
+
+/**
+ * Represents the git state a commit type is inferred from.
+ */
+export interface PrefillContext {
+  /** Name of the current branch, if any. @example "feat/pagination" */
+  branch: string | null;
+  /** Paths of the staged files. */
+  files: string[];
+}
+
+function renderHook(name: HookName, command: string) {
+  const args = name === "commit-msg" ? 'lint "$1"' : 'prefill "$@"';
+
+  return `#!/bin/sh\n${HOOK_MARKER}\nexec ${command} ${args}\n`;
+}
+
+function readHook(path: string) {
+  try {
+    return Deno.readTextFileSync(path);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return null;
+
+    throw error;
+  }
+}
+
+/**
+ * Installs the `commit-msg` and `prepare-commit-msg` hooks in a repository.
+ * The `commit-msg` hook lints the commit message, and the `prepare-commit-msg`
+ * hook prefills it with {@link prefillCommitMessage}. Both use the
+ * configuration discovered from the repository. The messages git writes, like
+ * the ones of merges, reverts and `--fixup` commits, pass the lint as is.
+ *
+ * Hooks are written to the `core.hooksPath` directory if set, or to the
+ * `hooks` directory of the repository otherwise. Existing hooks are never
+ * overwritten, unless they were installed by this function.
+ *
+ * @param options - Optional installation options.
+ * @returns What was done with each hook.
+ * @throws {Error} If the directory isn't a repository.
+ *
+ * @example
+ *
+ * ```ts
+ * import { installHooks } from "./hooks.ts";
+ *
+ * for (const { name, status } of installHooks({ cwd: "path/to/repository" })) {
+ *   console.log(`${name}: ${status}`);
+ * }
+ * ```
+ */
+export function installHooks(
+  options: InstallHooksOptions = {},
+): HookInstallation[] {
+  const { cwd = Deno.cwd(), command = DEFAULT_HOOK_COMMAND } = options;
+  const directory = getHooksPath(cwd);
+
+  Deno.mkdirSync(directory, { recursive: true });
+
+  return HOOK_NAMES.map((name) => {
+    const path = resolve(directory, name);
+    const existing = readHook(path);
+
+    if (existing !== null && !existing.includes(HOOK_MARKER)) {
+      return { name, path, status: "skipped" };
+    }
+
+    Deno.writeTextFileSync(path, renderHook(name, command), { mode: 0o755 });
+
+    if (Deno.build.os !== "windows") Deno.chmodSync(path, 0o755);
+
+    return { name, path, status: existing === null ? "installed" : "updated" };
+  });
+}
+
+/**
+ * Infers the commit type of the next commit. The first segment of the branch
+ * name is used if it's the name of a commit type or alias, like `feat` in
+ * `feat/pagination`. Otherwise, a type is inferred from the staged files when
+ * they're all tests, documentation or CI files.
+ *
+ * @param config - Configuration with the commit types and aliases.
+ * @param context - The current branch and the staged files.
+ * @returns The name of the commit type or alias, or `null` if none applies.
+ *
+ * @example
+ *
+ * ```ts
+ * import { Configuration } from "./configuration.ts";
+ * import { inferCommitType } from "./hooks.ts";
+ *
+ * const config = Configuration.fromPreset("default");
+ *
+ * console.assert(
+ *   inferCommitType(config, { branch: "fix/empty-input", files: [] }) === "fix",
+ * );
+ * console.assert(
+ *   inferCommitType(config, { branch: "main", files: ["README.md"] }) === "docs",
+ * );
+ * ```
+ */
+export function inferCommitType(
+  config: Configuration,
+  context: PrefillContext,
+): string | null {
+  const branch = context.branch?.toLowerCase() || "";
+  const prefix = branch.includes("/") ? branch.split("/")[0] : null;
+  const resolved = prefix === null ? null : config.resolve(prefix);
+
+  if (resolved?.kind === "type" || resolved?.kind === "alias") {
+    return prefix;
+  }
+
+  if (context.files.length === 0) return null;
+
+  for (const [type, pattern] of STAGED_FILE_TYPES) {
+    if (
+      config.findTypeByName(type) !== null &&
+      context.files.every((file) => pattern.test(file))
+    ) {
+      return type;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Prefills a commit message file with the header of the commit type inferred
+ * by {@link inferCommitType}, like `✨ feat: `. It's what the
+ * `prepare-commit-msg` hook does.
+ *
+ * The file is left as is when the message has a source, like a `-m` option
+ * or a merge, or when it already has text other than comments. The prefilled
+ * header has no subject, so the `commit-msg` hook rejects the message until
+ * one is written.
+ *
+ * @param path - Path to the commit message file.
+ * @param config - Configuration with the commit types and aliases.
+ * @param options - Optional prefill options.
+ * @returns The inferred commit type or alias, or `null` if the file was left
+ * as is.
+ */
+export function prefillCommitMessage(
+  path: string,
+  config: Configuration,
+  options: PrefillOptions = {},
+) {
+  const { cwd = Deno.cwd(), source } = options;
+
+  if (source) return null;
+
+  const text = cutAtScissors(Deno.readTextFileSync(path));
+  const hasMessage = text
+    .split("\n")
+    .some((line) => !line.startsWith("#") && line.trim() !== "");
+
+  if (hasMessage) return null;
+
+  const type = inferCommitType(config, {
+    branch: getCurrentBranch(cwd),
+    files: getStagedFiles(cwd),
+  });
+
+  if (type === null) return null;
+
+  writeCommitMessage(path, formatCommit({ type, subject: "" }, config) + " ");
+
+  return type;
+}
@@ -0,0 +1,248 @@
+const WHITESPACE_REGEX = /[ \t\n\r]*/y;
+
+const STRING_REGEX = /"(?:[^"\\\n]|\\.)*"/y;
+
+const NUMBER_REGEX = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+
+const LITERAL_REGEX = /true|false|null/y;
+
+/**
+ * Represents a position in a JSON document.
+ */
+export interface JsonLocation {
+  /** Character offset from the beginning of the document. */
+  offset: number;
+  /** Line number, starting at `1`. */
+  line: number;
+  /** Column number, starting at `1`. */
+  column: number;
+}
+
+/**
+ * Result of {@link parseJson}.
+ */
+export interface ParsedJson {
+  /** The parsed value, same as the one returned by `JSON.parse`. */
+  value: unknown;
+  /**
+   * Where each value of the document starts, keyed by its dotted path. The
+   * root value has an empty path.
+   *
+   * @example { "": {...}, "types": {...}, "types.feat.emoji.code": {...} }
+   */
+  locations: Record<string, JsonLocation>;
+}
+
+/**
+ * Error thrown when a JSON document can't be parsed.
+ */
+export class JsonParseError extends SyntaxError {
+  override name = "JsonParseError";
+
+  /**
+   * @param reason - Description of what went wrong.
+   * @param location - Where the document stopped being valid.
+   */
+  constructor(readonly reason: string, readonly location: JsonLocation) {
+    super(`${reason} (line ${location.line}, column ${location.column})`, {
+      cause: { reason, location },
+    });
+  }
+}
+
+/**
+ * Gets the line and column of a character offset in a text.
+ *
+ * @param text - The text.
+ * @param offset - Character offset from the beginning of the text.
+ * @returns The location of the offset.
+ */
+export function getJsonLocation(text: string, offset: number): JsonLocation {
+  const before = text.slice(0, offset);
+  const lineStart = before.lastIndexOf("\n") + 1;
+
+  return {
+    offset,
+    line: before.split("\n").length,
+    column: offset - lineStart + 1,
+  };
+}
+
+/**
+ * Parses a JSON document, keeping track of where each value starts so
+ * problems with the parsed value can be traced back to the document.
+ *
+ * @param text - The JSON document.
+ * @returns The parsed value and the location of each of its values.
+ * @throws {JsonParseError} If the document isn't valid JSON.
+ *
+ * @example
+ *
+ * ```ts
+ * import { parseJson } from "./json.ts";
+ *
+ * const { value, locations } = parseJson('{\n  "fallback": "chore"\n}');
+ *
+ * console.assert((value as { fallback: string }).fallback === "chore");
+ * console.assert(locations.fallback.line === 2);
+ * console.assert(locations.fallback.column === 15);
+ * ```
+ */
+export function parseJson(text: string): ParsedJson {
+  const locations: Record<string, JsonLocation> = {};
+  let offset = 0;
+  // Only whitespace can span lines, so the line is tracked while skipping it.
+  let line = 1;
+  let lineStart = 0;
+
+  function locate(): JsonLocation {
+    return { offset, line, column: offset - lineStart + 1 };
+  }
+
+  function fail(reason: string): never {
+    throw new JsonParseError(reason, locate());
+  }
+
+  function current() {
+    return offset < text.length ? JSON.stringify(text[offset]) : "end of input";
+  }
+
+  function skipWhitespace() {
+    WHITESPACE_REGEX.lastIndex = offset;
+    WHITESPACE_REGEX.exec(text);
+
+    for (let i = offset; i < WHITESPACE_REGEX.lastIndex; i++) {
+      if (text[i] === "\n") {
+        line++;
+        lineStart = i + 1;
+      }
+    }
+
+    offset = WHITESPACE_REGEX.lastIndex;
+  }
+
+  function consume(regex: RegExp) {
+    regex.lastIndex = offset;
+
+    const match = regex.exec(text);
+
+    if (match === null) return null;
+
+    offset = regex.lastIndex;
+
+    return match[0];
+  }
+
+  function parseString() {
+    const start = offset;
+    const token = consume(STRING_REGEX);
+
+    if (token === null) fail(`Expected a string but found ${current()}.`);
+
+    try {
+      return JSON.parse(token) as string;
+    } catch {
+      offset = start;
+      fail(`Invalid string ${token}.`);
+    }
+  }
+
+  function parseObject(path: string[]) {
+    const value: Record<string, unknown> = {};
+
+    offset++;
+    skipWhitespace();
+
+    if (text[offset] === "}") {
+      offset++;
+
+      return value;
+    }
+
+    while (true) {
+      skipWhitespace();
+
+      const key = parseString();
+
+      skipWhitespace();
+
+      if (text[offset] !== ":") fail(`Expected ":" but found ${current()}.`);
+
+      offset++;
+      value[key] = parseValue([...path, key]);
+      skipWhitespace();
+
+      if (text[offset] === "}") {
+        offset++;
+
+        return value;
+      }
+
+      if (text[offset] !== ",") {
+        fail(`Expected "," or "}" but found ${current()}.`);
+      }
+
+      offset++;
+    }
+  }
+
+  function parseArray(path: string[]) {
+    const value: unknown[] = [];
+
+    offset++;
+    skipWhitespace();
+
+    if (text[offset] === "]") {
+      offset++;
+
+      return value;
+    }
+
+    while (true) {
+      value.push(parseValue([...path, String(value.length)]));
+      skipWhitespace();
+
+      if (text[offset] === "]") {
+        offset++;
+
+        return value;
+      }
+
+      if (text[offset] !== ",") {
+        fail(`Expected "," or "]" but found ${current()}.`);
+      }
+
+      offset++;
+    }
+  }
+
+  function parseValue(path: string[]): unknown {
+    skipWhitespace();
+    locations[path.join(".")] = locate();
+
+    switch (text[offset]) {
+      case "{":
+        return parseObject(path);
+      case "[":
+        return parseArray(path);
+      case '"':
+        return parseString();
+    }
+
+    const token = consume(NUMBER_REGEX) || consume(LITERAL_REGEX);
+
+    if (token === null) fail(`Unexpected ${current()}.`);
+
+    return JSON.parse(token);
+  }
+
+  const value = parseValue([]);
+
+  skipWhitespace();
+
+  if (offset < text.length) {
+    fail(`Unexpected ${current()} after the end of the document.`);
+  }
+
+  return { value, locations };
+}
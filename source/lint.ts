@@ -0,0 +1,352 @@
+import { CommitSpan, parseCommit, ParsedCommit } from "./commit.ts";
+import { Configuration } from "./configuration.ts";
+import { isSameEmoji } from "./emoji.ts";
+
+/**
+ * Severity of a lint rule. Rules with severity `off` are not run.
+ */
+export type LintSeverity = "error" | "warning" | "off";
+
+/**
+ * Represents a problem found in a commit message.
+ */
+export interface LintDiagnostic {
+  /** Identifier of the rule that reported the problem. @example "type-enum" */
+  rule: string;
+  /** Severity of the problem. */
+  severity: Exclude<LintSeverity, "off">;
+  /** Human readable description of the problem. */
+  message: string;
+  /**
+   * Location of the problem, as a `[start, end)` pair of character offsets
+   * relative to the beginning of {@link ParsedCommit.raw}.
+   */
+  range: CommitSpan;
+}
+
+/**
+ * Values available to a lint rule when checking a commit message.
+ */
+export interface LintContext<O> {
+  /** The parsed commit message. */
+  commit: ParsedCommit;
+  /** Configuration the commit message was resolved against. */
+  config: Configuration;
+  /** Options of the rule, merged with its defaults. */
+  options: O;
+}
+
+/**
+ * A problem reported by a lint rule, before it gets its rule id and severity.
+ */
+export type LintReport = Pick<LintDiagnostic, "message" | "range">;
+
+/**
+ * Definition of a lint rule.
+ */
+export interface LintRule<O = Record<string, never>> {
+  /** Unique identifier of the rule. @example "header-max-length" */
+  id: string;
+  /** Short description of what the rule checks. */
+  description: string;
+  /** Severity used when the rule isn't configured. */
+  severity: LintSeverity;
+  /** Options used when the rule isn't configured. */
+  options: O;
+  /** Checks the commit message and returns the problems found. */
+  check(context: LintContext<O>): LintReport[];
+}
+
+/**
+ * Configuration of a single lint rule. Both properties are optional and fall
+ * back to the rule defaults.
+ */
+export interface LintRuleConfiguration<O = Record<string, never>> {
+  severity?: LintSeverity;
+  options?: Partial<O>;
+}
+
+/**
+ * Headers of the commit messages written by git itself, which aren't linted
+ * by default: merges, reverts, and the `fixup!`, `squash!` and `amend!`
+ * commits meant to be squashed by `git rebase --autosquash`.
+ */
+export const DEFAULT_LINT_IGNORES: readonly RegExp[] = [
+  /^Merge /,
+  /^Revert "/,
+  /^(fixup|squash|amend)! /,
+];
+
+/**
+ * Options for {@link lintCommit}.
+ */
+export interface LintOptions {
+  /**
+   * Patterns of the headers that aren't linted. Defaults to
+   * {@link DEFAULT_LINT_IGNORES}; an empty list lints every commit message.
+   */
+  ignores?: readonly RegExp[];
+  /** Configuration of each rule, keyed by rule id. */
+  rules?: {
+    [K in keyof typeof LINT_RULES]?: LintRuleConfiguration<
+      typeof LINT_RULES[K]["options"]
+    >;
+  };
+}
+
+/**
+ * Result of linting a commit message.
+ */
+export interface LintResult {
+  /** Whether no diagnostic with severity `error` was reported. */
+  valid: boolean;
+  /** Whether the header matched one of the ignored patterns. */
+  ignored: boolean;
+  /** The parsed commit message. */
+  commit: ParsedCommit;
+  /** Problems found, in the order the rules were run. */
+  diagnostics: LintDiagnostic[];
+}
+
+function headerRange(commit: ParsedCommit): CommitSpan {
+  return [0, commit.header.length];
+}
+
+/**
+ * Reports commits whose type isn't a configured commit type or alias.
+ */
+const typeEnum: LintRule = {
+  id: "type-enum",
+  description: "The commit type must be a configured commit type or alias.",
+  severity: "error",
+  options: {},
+  check({ commit }) {
+    if (commit.type !== null) {
+      if (commit.resolution === "type" || commit.resolution === "alias") {
+        return [];
+      }
+
+      return [
+        {
+          message: `Unknown commit type or alias "${commit.type}".`,
+          range: commit.spans.type!,
+        },
+      ];
+    }
+
+    if (commit.resolution !== "fallback") return [];
+
+    return [
+      {
+        message: "The commit header doesn't have a commit type.",
+        range: headerRange(commit),
+      },
+    ];
+  },
+};
+
+/**
+ * Reports scopes that don't match the configured scopes of the commit type or
+ * alias. Commit types and aliases with no configured scopes accept any scope.
+ */
+const scopeEnum: LintRule = {
+  id: "scope-enum",
+  description: "The commit scope must be one of the configured scopes.",
+  severity: "error",
+  options: {},
+  check({ commit, config }) {
+    if (commit.scope === null) return [];
+
+    const name = commit.alias?.name || commit.commitType.type;
+    const scopes = config.getScopes(name);
+
+    if (scopes.length === 0 || config.findScope(name, commit.scope) !== null) {
+      return [];
+    }
+
+    const expected = scopes
+      .map((s) => s.pattern === null ? s.name : `${s.name} (${s.pattern})`)
+      .join(", ");
+
+    return [
+      {
+        message: `Scope "${commit.scope}" is not allowed for "${name}". ` +
+          `Expected one of: ${expected}.`,
+        range: commit.spans.scope || headerRange(commit),
+      },
+    ];
+  },
+};
+
+/**
+ * Reports header emojis that don't belong to the commit type or alias
+ * written in the header.
+ */
+const emojiMatch: LintRule = {
+  id: "emoji-match",
+  description: "The commit emoji must match the commit type or alias.",
+  severity: "error",
+  options: {},
+  check({ commit }) {
+    if (commit.emoji === null) return [];
+    if (commit.resolution !== "type" && commit.resolution !== "alias") {
+      return [];
+    }
+
+    const expected = commit.alias?.emoji || commit.commitType.emoji;
+
+    if (
+      isSameEmoji(commit.emoji, expected.character) ||
+      isSameEmoji(commit.emoji, expected.code)
+    ) {
+      return [];
+    }
+
+    return [
+      {
+        message: `Emoji "${commit.emoji}" doesn't match "${commit.type}". ` +
+          `Expected "${expected.character}" or "${expected.code}".`,
+        range: commit.spans.emoji!,
+      },
+    ];
+  },
+};
+
+/**
+ * Reports commits whose header has no subject, like `feat: `.
+ */
+const subjectEmpty: LintRule = {
+  id: "subject-empty",
+  description: "The commit subject must not be empty.",
+  severity: "error",
+  options: {},
+  check({ commit }) {
+    if (commit.subject.trim() !== "") return [];
+
+    return [
+      {
+        message: "The commit header doesn't have a subject.",
+        range: headerRange(commit),
+      },
+    ];
+  },
+};
+
+/**
+ * Reports headers longer than the configured maximum length.
+ */
+const headerMaxLength: LintRule<{ max: number }> = {
+  id: "header-max-length",
+  description: "The commit header must not exceed the maximum length.",
+  severity: "error",
+  options: { max: 100 },
+  check({ commit, options }) {
+    if (commit.header.length <= options.max) return [];
+
+    return [
+      {
+        message: `The commit header is ${commit.header.length} characters ` +
+          `long, the maximum is ${options.max}.`,
+        range: [options.max, commit.header.length],
+      },
+    ];
+  },
+};
+
+/**
+ * Reports commits without a body.
+ */
+const bodyRequired: LintRule = {
+  id: "body-required",
+  description: "The commit message must have a body.",
+  severity: "off",
+  options: {},
+  check({ commit }) {
+    if (commit.body !== null) return [];
+
+    return [
+      {
+        message: "The commit message must have a body.",
+        range: [commit.header.length, commit.raw.length],
+      },
+    ];
+  },
+};
+
+/**
+ * Built-in lint rules, keyed by rule id.
+ */
+export const LINT_RULES = {
+  "type-enum": typeEnum,
+  "scope-enum": scopeEnum,
+  "emoji-match": emojiMatch,
+  "subject-empty": subjectEmpty,
+  "header-max-length": headerMaxLength,
+  "body-required": bodyRequired,
+};
+
+/**
+ * Lints a commit message against the given configuration. Commit messages
+ * whose header matches one of the ignored patterns, like the merge commits
+ * written by git, are valid without running any rule.
+ *
+ * @param message - The raw commit message.
+ * @param config - Configuration used to resolve the commit type.
+ * @param options - Optional rule configuration.
+ * @returns The lint result, including every diagnostic found.
+ *
+ * @example
+ *
+ * ```ts
+ * import { Configuration } from "./configuration.ts";
+ * import { lintCommit } from "./lint.ts";
+ *
+ * const config = Configuration.fromFile("path/to/config.json");
+ * const result = lintCommit("🐛 feat: add pagination", config, {
+ *   rules: { "header-max-length": { options: { max: 72 } } },
+ * });
+ *
+ * console.assert(result.valid === false);
+ * console.assert(result.diagnostics[0].rule === "emoji-match");
+ * ```
+ */
+export function lintCommit(
+  message: string,
+  config: Configuration,
+  options: LintOptions = {},
+): LintResult {
+  const commit = parseCommit(message, config);
+  const diagnostics: LintDiagnostic[] = [];
+  const { ignores = DEFAULT_LINT_IGNORES } = options;
+
+  if (ignores.some((pattern) => pattern.test(commit.header))) {
+    return { valid: true, ignored: true, commit, diagnostics };
+  }
+
+  const rules = Object.values(LINT_RULES) as LintRule<unknown>[];
+
+  for (const rule of rules) {
+    const ruleConfig = (options.rules?.[rule.id as keyof typeof LINT_RULES] ||
+      {}) as LintRuleConfiguration<unknown>;
+    const severity = ruleConfig.severity || rule.severity;
+
+    if (severity === "off") continue;
+
+    const reports = rule.check({
+      commit,
+      config,
+      options: { ...rule.options as object, ...ruleConfig.options },
+    });
+
+    for (const report of reports) {
+      diagnostics.push({ rule: rule.id, severity, ...report });
+    }
+  }
+
+  return {
+    valid: diagnostics.every((d) => d.severity !== "error"),
+    ignored: false,
+    commit,
+    diagnostics,
+  };
+}
@@ -0,0 +1,124 @@
+import { ConfigurationInput } from "../configuration.ts";
+
+/**
+ * Conventional commits preset: the commit types of
+ * `@commitlint/config-conventional`, without aliases.
+ *
+ * Only features, bug fixes, performance improvements and reverts are included
+ * in the changelog, like `conventional-changelog` does.
+ */
+export const CONVENTIONAL_PRESET: ConfigurationInput = {
+  types: {
+    build: {
+      type: "build",
+      title: "Builds",
+      description:
+        "Changes that affect the build system or external dependencies (example scopes: gulp, broccoli, npm).",
+      semver: null,
+      changelog: false,
+      emoji: {
+        character: "🛠️",
+        code: ":hammer_and_wrench:",
+        name: "hammer_and_wrench",
+      },
+    },
+    chore: {
+      type: "chore",
+      title: "Chores",
+      description: "Other changes that don't modify src or test files.",
+      semver: null,
+      changelog: false,
+      emoji: { character: "🧹", code: ":broom:", name: "broom" },
+    },
+    ci: {
+      type: "ci",
+      title: "Continuous Integrations",
+      description:
+        "Changes to our CI configuration files and scripts (example scopes: Travis, Circle, BrowserStack, SauceLabs).",
+      semver: null,
+      changelog: false,
+      emoji: { character: "⚙️", code: ":gear:", name: "gear" },
+    },
+    docs: {
+      type: "docs",
+      title: "Documentation",
+      description: "Documentation only changes.",
+      semver: null,
+      changelog: false,
+      emoji: { character: "📚", code: ":books:", name: "books" },
+    },
+    feat: {
+      type: "feat",
+      title: "Features",
+      description: "A new feature.",
+      semver: "minor",
+      changelog: true,
+      emoji: { character: "✨", code: ":sparkles:", name: "sparkles" },
+    },
+    fix: {
+      type: "fix",
+      title: "Bug Fixes",
+      description: "A bug fix.",
+      semver: "patch",
+      changelog: true,
+      emoji: { character: "🐛", code: ":bug:", name: "bug" },
+    },
+    perf: {
+      type: "perf",
+      title: "Performance Improvements",
+      description: "A code change that improves performance.",
+      semver: "patch",
+      changelog: true,
+      emoji: { character: "🚀", code: ":rocket:", name: "rocket" },
+    },
+    refactor: {
+      type: "refactor",
+      title: "Code Refactoring",
+      description: "A code change that neither fixes a bug nor adds a feature.",
+      semver: null,
+      changelog: false,
+      emoji: { character: "♻️", code: ":recycle:", name: "recycle" },
+    },
+    revert: {
+      type: "revert",
+      title: "Reverts",
+      description: "Reverts a previous commit.",
+      semver: "patch",
+      changelog: true,
+      emoji: { character: "⏪", code: ":rewind:", name: "rewind" },
+    },
+    style: {
+      type: "style",
+      title: "Styles",
+      description:
+        "Changes that do not affect the meaning of the code (white-space, formatting, missing semi-colons, etc).",
+      semver: null,
+      changelog: false,
+      emoji: { character: "💎", code: ":gem:", name: "gem" },
+    },
+    test: {
+      type: "test",
+      title: "Tests",
+      description: "Adding missing tests or correcting existing tests.",
+      semver: null,
+      changelog: false,
+      emoji: { character: "🧪", code: ":test_tube:", name: "test_tube" },
+    },
+  },
+  aliases: {},
+  fallback: "chore",
+  order: [
+    "feat",
+    "fix",
+    "perf",
+    "revert",
+    "build",
+    "chore",
+    "ci",
+    "docs",
+    "refactor",
+    "style",
+    "test",
+  ],
+  scopes: {},
+};
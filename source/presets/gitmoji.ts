@@ -0,0 +1,480 @@
+import {
+  CommitAlias,
+  ConfigurationInput,
+  ReleaseType,
+} from "../configuration.ts";
+
+/**
+ * Gitmojis that aren't used by a commit type, as
+ * `[name, character, code, type, semver, description]` rows.
+ */
+const GITMOJI_ALIASES: [
+  name: string,
+  character: string,
+  code: string,
+  type: string,
+  semver: ReleaseType | null,
+  description: string,
+][] = [
+  ["fire", "🔥", ":fire:", "refactor", null, "Remove code or files."],
+  ["ambulance", "🚑️", ":ambulance:", "fix", "patch", "Critical hotfix."],
+  ["rocket", "🚀", ":rocket:", "chore", null, "Deploy stuff."],
+  [
+    "lipstick",
+    "💄",
+    ":lipstick:",
+    "feat",
+    "patch",
+    "Add or update the UI and style files.",
+  ],
+  ["tada", "🎉", ":tada:", "feat", null, "Begin a project."],
+  [
+    "lock",
+    "🔒️",
+    ":lock:",
+    "fix",
+    "patch",
+    "Fix security or privacy issues.",
+  ],
+  [
+    "closed-lock-with-key",
+    "🔐",
+    ":closed_lock_with_key:",
+    "chore",
+    null,
+    "Add or update secrets.",
+  ],
+  ["bookmark", "🔖", ":bookmark:", "build", null, "Release / Version tags."],
+  [
+    "rotating-light",
+    "🚨",
+    ":rotating_light:",
+    "style",
+    null,
+    "Fix compiler / linter warnings.",
+  ],
+  ["construction", "🚧", ":construction:", "chore", null, "Work in progress."],
+  ["green-heart", "💚", ":green_heart:", "ci", null, "Fix CI Build."],
+  [
+    "arrow-down",
+    "⬇️",
+    ":arrow_down:",
+    "build",
+    "patch",
+    "Downgrade dependencies.",
+  ],
+  ["arrow-up", "⬆️", ":arrow_up:", "build", "patch", "Upgrade dependencies."],
+  [
+    "pushpin",
+    "📌",
+    ":pushpin:",
+    "build",
+    "patch",
+    "Pin dependencies to specific versions.",
+  ],
+  [
+    "chart-with-upwards-trend",
+    "📈",
+    ":chart_with_upwards_trend:",
+    "feat",
+    "patch",
+    "Add or update analytics or track code.",
+  ],
+  [
+    "heavy-plus-sign",
+    "➕",
+    ":heavy_plus_sign:",
+    "build",
+    "patch",
+    "Add a dependency.",
+  ],
+  [
+    "heavy-minus-sign",
+    "➖",
+    ":heavy_minus_sign:",
+    "build",
+    "patch",
+    "Remove a dependency.",
+  ],
+  [
+    "hammer",
+    "🔨",
+    ":hammer:",
+    "chore",
+    null,
+    "Add or update development scripts.",
+  ],
+  [
+    "globe-with-meridians",
+    "🌐",
+    ":globe_with_meridians:",
+    "feat",
+    "patch",
+    "Internationalization and localization.",
+  ],
+  ["pencil2", "✏️", ":pencil2:", "fix", "patch", "Fix typos."],
+  [
+    "poop",
+    "💩",
+    ":poop:",
+    "chore",
+    null,
+    "Write bad code that needs to be improved.",
+  ],
+  [
+    "twisted-rightwards-arrows",
+    "🔀",
+    ":twisted_rightwards_arrows:",
+    "chore",
+    null,
+    "Merge branches.",
+  ],
+  [
+    "alien",
+    "👽️",
+    ":alien:",
+    "fix",
+    "patch",
+    "Update code due to external API changes.",
+  ],
+  [
+    "truck",
+    "🚚",
+    ":truck:",
+    "refactor",
+    null,
+    "Move or rename resources (e.g.: files, paths, routes).",
+  ],
+  [
+    "page-facing-up",
+    "📄",
+    ":page_facing_up:",
+    "docs",
+    null,
+    "Add or update license.",
+  ],
+  ["boom", "💥", ":boom:", "feat", "major", "Introduce breaking changes."],
+  ["bento", "🍱", ":bento:", "feat", "patch", "Add or update assets."],
+  [
+    "wheelchair",
+    "♿️",
+    ":wheelchair:",
+    "feat",
+    "patch",
+    "Improve accessibility.",
+  ],
+  [
+    "bulb",
+    "💡",
+    ":bulb:",
+    "docs",
+    null,
+    "Add or update comments in source code.",
+  ],
+  ["beers", "🍻", ":beers:", "chore", null, "Write code drunkenly."],
+  [
+    "speech-balloon",
+    "💬",
+    ":speech_balloon:",
+    "feat",
+    "patch",
+    "Add or update text and literals.",
+  ],
+  [
+    "card-file-box",
+    "🗃️",
+    ":card_file_box:",
+    "feat",
+    "patch",
+    "Perform database related changes.",
+  ],
+  ["loud-sound", "🔊", ":loud_sound:", "feat", null, "Add or update logs."],
+  ["mute", "🔇", ":mute:", "feat", null, "Remove logs."],
+  [
+    "busts-in-silhouette",
+    "👥",
+    ":busts_in_silhouette:",
+    "docs",
+    null,
+    "Add or update contributor(s).",
+  ],
+  [
+    "children-crossing",
+    "🚸",
+    ":children_crossing:",
+    "feat",
+    "patch",
+    "Improve user experience / usability.",
+  ],
+  [
+    "building-construction",
+    "🏗️",
+    ":building_construction:",
+    "refactor",
+    null,
+    "Make architectural changes.",
+  ],
+  ["iphone", "📱", ":iphone:", "feat", "patch", "Work on responsive design."],
+  ["clown-face", "🤡", ":clown_face:", "test", null, "Mock things."],
+  ["egg", "🥚", ":egg:", "feat", "patch", "Add or update an easter egg."],
+  [
+    "see-no-evil",
+    "🙈",
+    ":see_no_evil:",
+    "chore",
+    null,
+    "Add or update a .gitignore file.",
+  ],
+  [
+    "camera-flash",
+    "📸",
+    ":camera_flash:",
+    "test",
+    null,
+    "Add or update snapshots.",
+  ],
+  ["alembic", "⚗️", ":alembic:", "chore", "patch", "Perform experiments."],
+  ["mag", "🔍️", ":mag:", "feat", "patch", "Improve SEO."],
+  ["label", "🏷️", ":label:", "refactor", "patch", "Add or update types."],
+  ["seedling", "🌱", ":seedling:", "chore", null, "Add or update seed files."],
+  [
+    "triangular-flag-on-post",
+    "🚩",
+    ":triangular_flag_on_post:",
+    "feat",
+    "patch",
+    "Add, update, or remove feature flags.",
+  ],
+  ["goal-net", "🥅", ":goal_net:", "fix", "patch", "Catch errors."],
+  [
+    "dizzy",
+    "💫",
+    ":dizzy:",
+    "feat",
+    "patch",
+    "Add or update animations and transitions.",
+  ],
+  [
+    "wastebasket",
+    "🗑️",
+    ":wastebasket:",
+    "refactor",
+    "patch",
+    "Deprecate code that needs to be cleaned up.",
+  ],
+  [
+    "passport-control",
+    "🛂",
+    ":passport_control:",
+    "feat",
+    "patch",
+    "Work on code related to authorization, roles and permissions.",
+  ],
+  [
+    "adhesive-bandage",
+    "🩹",
+    ":adhesive_bandage:",
+    "fix",
+    "patch",
+    "Simple fix for a non-critical issue.",
+  ],
+  [
+    "monocle-face",
+    "🧐",
+    ":monocle_face:",
+    "chore",
+    null,
+    "Data exploration/inspection.",
+  ],
+  ["coffin", "⚰️", ":coffin:", "refactor", null, "Remove dead code."],
+  ["test-tube", "🧪", ":test_tube:", "test", null, "Add a failing test."],
+  [
+    "necktie",
+    "👔",
+    ":necktie:",
+    "feat",
+    "patch",
+    "Add or update business logic.",
+  ],
+  [
+    "stethoscope",
+    "🩺",
+    ":stethoscope:",
+    "feat",
+    null,
+    "Add or update healthcheck.",
+  ],
+  ["bricks", "🧱", ":bricks:", "ci", null, "Infrastructure related changes."],
+  [
+    "technologist",
+    "🧑‍💻",
+    ":technologist:",
+    "chore",
+    null,
+    "Improve developer experience.",
+  ],
+  [
+    "money-with-wings",
+    "💸",
+    ":money_with_wings:",
+    "chore",
+    null,
+    "Add sponsorships or money related infrastructure.",
+  ],
+  [
+    "thread",
+    "🧵",
+    ":thread:",
+    "feat",
+    null,
+    "Add or update code related to multithreading or concurrency.",
+  ],
+  [
+    "safety-vest",
+    "🦺",
+    ":safety_vest:",
+    "feat",
+    null,
+    "Add or update code related to validation.",
+  ],
+];
+
+const aliases: Record<string, CommitAlias> = {};
+
+for (
+  const [name, character, code, type, semver, description] of GITMOJI_ALIASES
+) {
+  aliases[name] = {
+    name,
+    type,
+    description,
+    semver,
+    changelog: semver !== null,
+    emoji: { character, code, name: code.slice(1, -1) },
+  };
+}
+
+/**
+ * Gitmoji preset: the conventional commit types, each one with the gitmoji
+ * that best represents it, plus every other gitmoji of the
+ * {@link https://gitmoji.dev catalogue} as an alias of a commit type.
+ *
+ * Aliases are named after their gitmoji (`ambulance`, `arrow-up`, ...) and
+ * only the ones that require a release are included in the changelog.
+ */
+export const GITMOJI_PRESET: ConfigurationInput = {
+  types: {
+    build: {
+      type: "build",
+      title: "Builds",
+      description: "Add or update compiled files or packages.",
+      semver: "patch",
+      changelog: true,
+      emoji: { character: "📦️", code: ":package:", name: "package" },
+    },
+    chore: {
+      type: "chore",
+      title: "Chores",
+      description: "Add or update configuration files.",
+      semver: null,
+      changelog: false,
+      emoji: { character: "🔧", code: ":wrench:", name: "wrench" },
+    },
+    ci: {
+      type: "ci",
+      title: "Continuous Integrations",
+      description: "Add or update CI build system.",
+      semver: null,
+      changelog: false,
+      emoji: {
+        character: "👷",
+        code: ":construction_worker:",
+        name: "construction_worker",
+      },
+    },
+    docs: {
+      type: "docs",
+      title: "Documentation",
+      description: "Add or update documentation.",
+      semver: null,
+      changelog: true,
+      emoji: { character: "📝", code: ":memo:", name: "memo" },
+    },
+    feat: {
+      type: "feat",
+      title: "Features",
+      description: "Introduce new features.",
+      semver: "minor",
+      changelog: true,
+      emoji: { character: "✨", code: ":sparkles:", name: "sparkles" },
+    },
+    fix: {
+      type: "fix",
+      title: "Bug Fixes",
+      description: "Fix a bug.",
+      semver: "patch",
+      changelog: true,
+      emoji: { character: "🐛", code: ":bug:", name: "bug" },
+    },
+    perf: {
+      type: "perf",
+      title: "Performance Improvements",
+      description: "Improve performance.",
+      semver: "patch",
+      changelog: true,
+      emoji: { character: "⚡️", code: ":zap:", name: "zap" },
+    },
+    refactor: {
+      type: "refactor",
+      title: "Code Refactoring",
+      description: "Refactor code.",
+      semver: null,
+      changelog: false,
+      emoji: { character: "♻️", code: ":recycle:", name: "recycle" },
+    },
+    revert: {
+      type: "revert",
+      title: "Reverts",
+      description: "Revert changes.",
+      semver: "patch",
+      changelog: true,
+      emoji: { character: "⏪️", code: ":rewind:", name: "rewind" },
+    },
+    style: {
+      type: "style",
+      title: "Styles",
+      description: "Improve structure / format of the code.",
+      semver: null,
+      changelog: false,
+      emoji: { character: "🎨", code: ":art:", name: "art" },
+    },
+    test: {
+      type: "test",
+      title: "Tests",
+      description: "Add, update, or pass tests.",
+      semver: null,
+      changelog: false,
+      emoji: {
+        character: "✅",
+        code: ":white_check_mark:",
+        name: "white_check_mark",
+      },
+    },
+  },
+  aliases,
+  fallback: "chore",
+  order: [
+    "feat",
+    "fix",
+    "perf",
+    "revert",
+    "docs",
+    "build",
+    "chore",
+    "ci",
+    "refactor",
+    "style",
+    "test",
+  ],
+  scopes: {},
+};
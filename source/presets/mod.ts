@@ -0,0 +1,24 @@
+import { ConfigurationInput } from "../configuration.ts";
+import { CONVENTIONAL_PRESET } from "./conventional.ts";
+import { DEFAULT_PRESET } from "./default.ts";
+import { GITMOJI_PRESET } from "./gitmoji.ts";
+
+export { CONVENTIONAL_PRESET, DEFAULT_PRESET, GITMOJI_PRESET };
+
+/**
+ * Built-in configuration presets, keyed by name.
+ *
+ * - `default`: Conventional commit types with gitmojis and a few aliases.
+ * - `gitmoji`: Conventional commit types plus the full gitmoji catalogue as aliases.
+ * - `conventional`: Plain conventional commit types, without aliases.
+ */
+export const PRESETS = {
+  default: DEFAULT_PRESET,
+  gitmoji: GITMOJI_PRESET,
+  conventional: CONVENTIONAL_PRESET,
+} satisfies Record<string, ConfigurationInput>;
+
+/**
+ * Represents the name of a built-in preset.
+ */
+export type PresetName = keyof typeof PRESETS;
@@ -0,0 +1,176 @@
+import z from "https://deno.land/x/zod@v3.22.4/index.ts";
+import { ConfigurationSchema } from "./configuration.ts";
+
+/**
+ * Version of the configuration format. It follows the version of the package,
+ * so each release publishes the schema of its own configuration format.
+ */
+export const CONFIGURATION_SCHEMA_VERSION = "0.1.0";
+
+/**
+ * Identifier of the JSON Schema of configuration files. It's also the URL
+ * where the schema is published.
+ */
+export const CONFIGURATION_SCHEMA_ID =
+  `https://deno.land/x/conventional-gitmoji@${CONFIGURATION_SCHEMA_VERSION}/configuration.schema.json`;
+
+/**
+ * Name of the file the JSON Schema is written to, relative to the root of the
+ * repository.
+ */
+export const CONFIGURATION_SCHEMA_FILE_NAME = "configuration.schema.json";
+
+/**
+ * Represents a JSON Schema document, or one of its subschemas.
+ */
+export type JsonSchema = {
+  [key: string]: unknown;
+  description?: string;
+};
+
+function convertString(schema: z.ZodString): JsonSchema {
+  const result: JsonSchema = { type: "string" };
+
+  for (const check of schema._def.checks) {
+    if (check.kind === "min") result.minLength = check.value;
+    if (check.kind === "max") result.maxLength = check.value;
+
+    // Regular expressions with flags, like the emoji character one, can't be
+    // written as a JSON Schema pattern without changing their meaning.
+    if (check.kind === "regex" && check.regex.flags === "") {
+      result.pattern = check.regex.source;
+    }
+  }
+
+  return result;
+}
+
+function convertObject(schema: z.AnyZodObject): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+
+  for (const key in schema.shape) {
+    properties[key] = convertSchema(schema.shape[key]);
+  }
+
+  return { type: "object", properties, additionalProperties: false };
+}
+
+function convertSchema(schema: z.ZodTypeAny): JsonSchema {
+  let result: JsonSchema;
+
+  if (schema instanceof z.ZodEffects) {
+    result = convertSchema(schema.innerType());
+  } else if (schema instanceof z.ZodDefault) {
+    result = {
+      ...convertSchema(schema.removeDefault()),
+      default: schema._def.defaultValue(),
+    };
+  } else if (schema instanceof z.ZodNullable) {
+    result = { anyOf: [convertSchema(schema.unwrap()), { type: "null" }] };
+  } else if (schema instanceof z.ZodOptional) {
+    result = convertSchema(schema.unwrap());
+  } else if (schema instanceof z.ZodString) {
+    result = convertString(schema);
+  } else if (schema instanceof z.ZodBoolean) {
+    result = { type: "boolean" };
+  } else if (schema instanceof z.ZodEnum) {
+    result = { type: "string", enum: schema.options };
+  } else if (schema instanceof z.ZodArray) {
+    result = { type: "array", items: convertSchema(schema.element) };
+  } else if (schema instanceof z.ZodRecord) {
+    result = {
+      type: "object",
+      additionalProperties: convertSchema(schema.valueSchema),
+    };
+  } else if (schema instanceof z.ZodObject) {
+    result = convertObject(schema);
+  } else if (schema instanceof z.ZodUnion) {
+    result = {
+      anyOf: (schema.options as z.ZodTypeAny[]).map(convertSchema),
+    };
+  } else {
+    throw new Error(`Zod type "${schema._def.typeName}" is not supported.`, {
+      cause: { typeName: schema._def.typeName },
+    });
+  }
+
+  if (schema.description) result.description = schema.description;
+
+  return result;
+}
+
+/**
+ * Allows the entries of a record schema to be `null`, which removes them from
+ * the merged configuration.
+ */
+function allowRemoval(schema: JsonSchema): JsonSchema {
+  const entry = schema.additionalProperties as JsonSchema;
+
+  return {
+    ...schema,
+    additionalProperties: { ...entry, type: [entry.type, "null"] },
+  };
+}
+
+/**
+ * Creates the JSON Schema of configuration files from the Zod schemas, using
+ * their descriptions for editor hints.
+ *
+ * Configuration files are layers merged over a preset, so every property is
+ * optional: the schema checks the shape and format of each value, but not
+ * whether the configuration is complete. Unknown properties are reported, as
+ * they're usually typos. Configuration files can reference the schema with a
+ * `$schema` property, extend other files with an `extends` property, and
+ * remove inherited commit types, aliases and scope lists by setting them to
+ * `null`.
+ *
+ * @returns The JSON Schema document.
+ *
+ * @example
+ *
+ * ```ts
+ * import { CONFIGURATION_SCHEMA_ID, createConfigurationJsonSchema } from "./schema.ts";
+ *
+ * const schema = createConfigurationJsonSchema();
+ *
+ * console.assert(schema.$id === CONFIGURATION_SCHEMA_ID);
+ * ```
+ */
+export function createConfigurationJsonSchema(): JsonSchema {
+  const root = convertSchema(ConfigurationSchema);
+  const properties = root.properties as Record<string, JsonSchema>;
+
+  return {
+    $schema: "http://json-schema.org/draft-07/schema#",
+    $id: CONFIGURATION_SCHEMA_ID,
+    title: "Conventional Gitmoji configuration",
+    ...root,
+    properties: {
+      $schema: {
+        type: "string",
+        description: "URL of the JSON Schema of the configuration file.",
+      },
+      extends: {
+        anyOf: [
+          { type: "string" },
+          { type: "array", items: { type: "string" } },
+        ],
+        description: "Presets or paths to configuration files this one " +
+          "extends, merged in order before it.",
+      },
+      ...properties,
+      types: allowRemoval(properties.types),
+      aliases: allowRemoval(properties.aliases),
+      scopes: allowRemoval(properties.scopes),
+    },
+  };
+}
+
+if (import.meta.main) {
+  const schema = createConfigurationJsonSchema();
+
+  Deno.writeTextFileSync(
+    CONFIGURATION_SCHEMA_FILE_NAME,
+    JSON.stringify(schema, null, 2) + "\n",
+  );
+}
@@ -0,0 +1,181 @@
+/**
+ * Emoji characters by shortcode, without the surrounding colons.
+ *
+ * Includes every [gitmoji](https://gitmoji.dev), the emojis of the bundled
+ * presets, some common GitHub shortcodes and the Slack style skin tone
+ * modifiers (`skin-tone-2` to `skin-tone-6`). Characters are written in their
+ * fully-qualified form, with the variation selector when it applies.
+ *
+ * Some emojis have alternative shortcodes, like `zap` and `high_voltage`. The
+ * first one listed is used when converting characters into shortcodes.
+ *
+ * @example
+ *
+ * ```ts
+ * import { EMOJI_SHORTCODES } from "./shortcodes.ts";
+ *
+ * console.assert(EMOJI_SHORTCODES.sparkles === "✨");
+ * ```
+ */
+export const EMOJI_SHORTCODES: Record<string, string> = {
+  art: "🎨",
+  zap: "⚡️",
+  high_voltage: "⚡️",
+  fire: "🔥",
+  bug: "🐛",
+  ambulance: "🚑️",
+  sparkles: "✨",
+  memo: "📝",
+  pencil: "📝",
+  rocket: "🚀",
+  lipstick: "💄",
+  tada: "🎉",
+  party_popper: "🎉",
+  white_check_mark: "✅",
+  lock: "🔒️",
+  closed_lock_with_key: "🔐",
+  bookmark: "🔖",
+  rotating_light: "🚨",
+  police_car_light: "🚨",
+  construction: "🚧",
+  green_heart: "💚",
+  arrow_down: "⬇️",
+  arrow_up: "⬆️",
+  pushpin: "📌",
+  construction_worker: "👷",
+  chart_with_upwards_trend: "📈",
+  recycle: "♻️",
+  recycling_symbol: "♻️",
+  heavy_plus_sign: "➕",
+  heavy_minus_sign: "➖",
+  wrench: "🔧",
+  hammer: "🔨",
+  globe_with_meridians: "🌐",
+  pencil2: "✏️",
+  poop: "💩",
+  hankey: "💩",
+  rewind: "⏪️",
+  twisted_rightwards_arrows: "🔀",
+  package: "📦️",
+  alien: "👽️",
+  truck: "🚚",
+  page_facing_up: "📄",
+  boom: "💥",
+  collision: "💥",
+  bento: "🍱",
+  wheelchair: "♿️",
+  bulb: "💡",
+  light_bulb: "💡",
+  beers: "🍻",
+  speech_balloon: "💬",
+  card_file_box: "🗃️",
+  loud_sound: "🔊",
+  mute: "🔇",
+  busts_in_silhouette: "👥",
+  children_crossing: "🚸",
+  building_construction: "🏗️",
+  iphone: "📱",
+  clown_face: "🤡",
+  egg: "🥚",
+  see_no_evil: "🙈",
+  camera_flash: "📸",
+  alembic: "⚗️",
+  mag: "🔍️",
+  label: "🏷️",
+  seedling: "🌱",
+  triangular_flag_on_post: "🚩",
+  goal_net: "🥅",
+  dizzy: "💫",
+  wastebasket: "🗑️",
+  passport_control: "🛂",
+  adhesive_bandage: "🩹",
+  monocle_face: "🧐",
+  coffin: "⚰️",
+  test_tube: "🧪",
+  necktie: "👔",
+  stethoscope: "🩺",
+  bricks: "🧱",
+  technologist: "🧑‍💻",
+  money_with_wings: "💸",
+  thread: "🧵",
+  safety_vest: "🦺",
+  hammer_and_wrench: "🛠️",
+  broom: "🧹",
+  gear: "⚙️",
+  books: "📚",
+  gem: "💎",
+  toolbox: "🧰",
+  star2: "🌟",
+  basket: "🧺",
+  "+1": "👍",
+  thumbsup: "👍",
+  "-1": "👎",
+  thumbsdown: "👎",
+  ok_hand: "👌",
+  clap: "👏",
+  wave: "👋",
+  pray: "🙏",
+  raised_hands: "🙌",
+  muscle: "💪",
+  point_up: "☝️",
+  point_right: "👉",
+  handshake: "🤝",
+  eyes: "👀",
+  heart: "❤️",
+  broken_heart: "💔",
+  smile: "😄",
+  joy: "😂",
+  sweat_smile: "😅",
+  wink: "😉",
+  sunglasses: "😎",
+  thinking: "🤔",
+  nerd_face: "🤓",
+  skull: "💀",
+  ghost: "👻",
+  robot: "🤖",
+  unicorn: "🦄",
+  bee: "🐝",
+  snail: "🐌",
+  turtle: "🐢",
+  whale: "🐳",
+  penguin: "🐧",
+  "100": "💯",
+  star: "⭐",
+  rainbow: "🌈",
+  sunny: "☀️",
+  zzz: "💤",
+  warning: "⚠️",
+  x: "❌",
+  heavy_check_mark: "✔️",
+  question: "❓",
+  exclamation: "❗",
+  no_entry: "⛔",
+  link: "🔗",
+  key: "🔑",
+  computer: "💻",
+  keyboard: "⌨️",
+  book: "📖",
+  calendar: "📅",
+  clipboard: "📋",
+  scissors: "✂️",
+  hourglass: "⌛",
+  stopwatch: "⏱️",
+  gift: "🎁",
+  trophy: "🏆",
+  balloon: "🎈",
+  confetti_ball: "🎊",
+  coffee: "☕",
+  pizza: "🍕",
+  beer: "🍺",
+  man_technologist: "👨‍💻",
+  woman_technologist: "👩‍💻",
+  shrug: "🤷",
+  facepalm: "🤦",
+  rainbow_flag: "🏳️‍🌈",
+  pirate_flag: "🏴‍☠️",
+  "skin-tone-2": "🏻",
+  "skin-tone-3": "🏼",
+  "skin-tone-4": "🏽",
+  "skin-tone-5": "🏾",
+  "skin-tone-6": "🏿",
+};
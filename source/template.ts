@@ -2,7 +2,13 @@ import {
   deepMerge,
   filterKeys,
 } from "https://deno.land/std@0.208.0/collections/mod.ts";
-import { Expand, ObjectEntries, ReplaceAll, UnionToTuple } from "./typings.ts";
+import {
+  Expand,
+  ObjectEntries,
+  ReplaceAll,
+  UnionToIntersection,
+  UnionToTuple,
+} from "./typings.ts";
 
 /**
  * Template class that allows rendering a string template with placeholders.
@@ -11,6 +17,23 @@ import { Expand, ObjectEntries, ReplaceAll, UnionToTuple } from "./typings.ts";
  * surrounded by `{}` braces. These placeholders can then be replaced by
  * calling `render()` and passing an object with keys matching the placeholder names.
  *
+ * Besides plain placeholders, templates support:
+ *
+ * - Filters, applied from left to right: `{subject|capitalize}`, `{hash|truncate:7}`.
+ *   See {@link Template.filters} for the available filters.
+ * - Optional sections, rendered only when the value is present: `{?scope}({scope}){/scope}`.
+ * - Inverted sections, rendered only when the value is missing: `{!scope}global{/scope}`.
+ * - Loops, rendered once per array item: `{#items}- {name}\n{/items}`. Inside a
+ *   loop, the properties of object items can be used as placeholders, and `{.}`
+ *   refers to the item itself.
+ * - Dotted paths, resolved against nested objects: `{commit.type.emoji.character}`.
+ *
+ * Placeholder names must follow the grammar described in
+ * {@link Template.placeholderRegex}; any other brace pair is literal text.
+ * To write a literal placeholder, escape its braces by doubling them:
+ * `{{name}}` renders as `{name}`. A `}}` is only an escape when it closes a
+ * `{{`, so code and JSON like `{"a":{"b":{x}}}` keep their closing braces.
+ *
  * Partial renders are also supported via `partialRender()`.
  *
  * @example
@@ -27,21 +50,104 @@ import { Expand, ObjectEntries, ReplaceAll, UnionToTuple } from "./typings.ts";
  *
  * console.assert(`${partial}` === "Bye {name}!");
  * ```
+ *
+ * @example <caption>Filters and optional sections:</caption>
+ *
+ * ```ts
+ * import { Template } from "./template.ts";
+ *
+ * const template = new Template("{emoji} {?scope}**{scope}:** {/scope}{subject|capitalize}");
+ *
+ * console.assert(
+ *   template.render({ emoji: "✨", scope: "api", subject: "add pagination" }) ===
+ *     "✨ **api:** Add pagination",
+ * );
+ * console.assert(
+ *   template.render({ emoji: "✨", subject: "add pagination" }) ===
+ *     "✨ Add pagination",
+ * );
+ * ```
  */
 export class Template<T extends string> extends String {
   /**
    * Regular expression to match placeholder syntax in the template string.
-   * Looks for strings surrounded by `{}` braces.
+   *
+   * Looks for escaped braces (`{{`, and `}}` when it closes a `{{`) and for tags surrounded by `{}`
+   * braces, made of:
+   *
+   * 1. An optional section sigil: `?`, `!`, `#` or `/`.
+   * 2. A name made of identifiers (letters, digits and `_`, not starting with
+   *    a digit) separated by dots, or a single dot.
+   * 3. Optional filters, each one starting with `|` and followed by an
+   *    identifier and its `:` separated arguments.
+   *
+   * Braces that don't follow this grammar, like `{}` or `{ "a": 1 }`, are
+   * treated as literal text.
+   */
+  static readonly placeholderRegex =
+    /{{|}}|{[?!#/]?(?:[A-Za-z_]\w*(?:\.[A-Za-z_]\w*)*|\.)(?:\|[A-Za-z_]\w*(?::[^{}|:]*)*)*}/g;
+
+  /**
+   * Filters available to every template, keyed by name.
+   *
+   * A filter receives the value of the placeholder and the arguments written
+   * after the filter name, separated by `:`. New filters can be registered by
+   * adding them to this object.
+   *
+   * @example
+   *
+   * ```ts
+   * import { Template } from "./template.ts";
+   *
+   * Template.filters.reverse = (value) => String(value).split("").reverse().join("");
+   *
+   * const template = new Template("{name|reverse}");
+   *
+   * console.assert(template.render({ name: "abc" }) === "cba");
+   * ```
    */
-  static readonly placeholderRegex = /{.+?}/g;
+  static readonly filters: Record<string, Template.Filter> = {
+    /** Converts the first character to upper case. */
+    capitalize: (value) => {
+      const text = String(value);
+
+      return text.charAt(0).toUpperCase() + text.slice(1);
+    },
+    /** Converts the value to lower case. */
+    lowercase: (value) => String(value).toLowerCase(),
+    /** Converts the value to upper case. */
+    uppercase: (value) => String(value).toUpperCase(),
+    /** Removes leading and trailing whitespace. */
+    trim: (value) => String(value).trim(),
+    /** Keeps the first `length` characters, a non-negative integer. */
+    truncate: (value, length = "0") => {
+      if (!/^\d+$/.test(length)) {
+        throw new Error(`The length "${length}" isn't a non-negative integer.`);
+      }
+
+      return String(value).slice(0, Number(length));
+    },
+    /** Joins the items of an array with the given separator. */
+    join: (value, separator = ", ") =>
+      Array.isArray(value) ? value.join(separator) : value,
+  };
 
   readonly replacements: Template.Replacements<T>;
 
+  /**
+   * Default options used by {@link Template.render}.
+   */
+  readonly options: Template.RenderOptions;
+
+  readonly #nodes: TemplateNode[];
+
   /**
    * Creates a new Template instance with the given template string value.
    *
    * @param value - The template string containing placeholders.
    * @param defaults - Optional object to fallback when not all replacements are given.
+   * @param options - Optional default render options.
+   * @throws {Error} If a section is not closed, or closed without being opened.
    *
    * @example
    *
@@ -53,43 +159,43 @@ export class Template<T extends string> extends String {
    * console.assert(`${template}` === "Hello {name}!");
    * ```
    */
-  public constructor(value: T, defaults?: Template.PartialReplacements<T>) {
+  public constructor(
+    value: T,
+    defaults?: Template.PartialReplacements<T>,
+    options?: Template.RenderOptions,
+  ) {
     super(value);
 
     this.replacements = (defaults || {}) as Template.Replacements<T>;
+    this.options = options || {};
+    this.#nodes = parseTemplate(value);
   }
 
   #render(
     replacements: Template.PartialReplacements<T>,
-    useDefaults = true,
-  ): string {
-    let endValue = new String(this) as string;
-    const rep = useDefaults
-      ? deepMerge(this.replacements, replacements)
-      : replacements;
-
-    for (const key in rep) {
-      const template = `{${key}}`;
-
-      endValue = endValue.replaceAll(template, rep[key] as string);
-    }
-
-    return endValue;
-  }
+    partial = false,
+    options: Template.RenderOptions = {},
+  ) {
+    const scope = partial
+      ? replacements
+      : deepMerge(this.replacements, replacements, { arrays: "replace" });
+    const { mode = "strict", fallback = "" } = { ...this.options, ...options };
+    const context: RenderContext = {
+      template: `${this}`,
+      partial,
+      missing: [],
+      substitute: mode === "substitute" && !partial
+        ? (placeholder) =>
+          typeof fallback === "function" ? fallback(placeholder) : fallback
+        : null,
+    };
+    const value = renderNodes(
+      this.#nodes,
+      scope as Record<string, Template.Value>,
+      context,
+    );
 
-  #validate(value: string) {
-    const placeholders = Array.from(value.matchAll(Template.placeholderRegex))
-      .map((v) => v[0]);
-
-    if (placeholders.length !== 0) {
-      throw new Error("Some placeholders haven't been replaced yet", {
-        cause: {
-          template: `${this}`,
-          result: value,
-          missingReplacements: placeholders,
-        },
-      });
-    }
+    return { value, missing: context.missing, mode };
   }
 
   /**
@@ -98,8 +204,19 @@ export class Template<T extends string> extends String {
    * Loops through the `replacements` object and replaces each placeholder
    * surrounded by `{}` in the template with the corresponding value.
    *
+   * What happens with placeholders that don't have a replacement depends on
+   * the render `mode`:
+   *
+   * - `strict` (default): A {@link TemplateRenderError} is thrown.
+   * - `lenient`: The placeholder is left as is.
+   * - `substitute`: The placeholder is replaced by the `fallback` option, which
+   *   can be a string or a function receiving the missing placeholder.
+   *
    * @param replacements - Object with keys matching placeholders and substitute values.
+   * @param options - Optional render options, merged over the template ones.
    * @returns Rendered string with all placeholders replaced.
+   * @throws {TemplateRenderError} If the mode is `strict` and some placeholders
+   * don't have a replacement.
    *
    * @example
    *
@@ -111,13 +228,32 @@ export class Template<T extends string> extends String {
    *
    * console.assert(rendered === "Hello World!");
    * ```
+   *
+   * @example <caption>Substitute missing placeholders:</caption>
+   *
+   * ```ts
+   * import { Template } from "./template.ts";
+   *
+   * const template = new Template("{subject} (#{pr})");
+   * const rendered = template.render(
+   *   { subject: "add pagination" },
+   *   { mode: "substitute", fallback: ({ name }) => `no ${name}` },
+   * );
+   *
+   * console.assert(rendered === "add pagination (#no pr)");
+   * ```
    */
-  public render(replacements: Template.PartialReplacements<T>): string {
-    const result = this.#render(replacements);
+  public render(
+    replacements: Template.PartialReplacements<T>,
+    options?: Template.RenderOptions,
+  ): string {
+    const { value, missing, mode } = this.#render(replacements, false, options);
 
-    this.#validate(result);
+    if (mode === "strict" && missing.length !== 0) {
+      throw new TemplateRenderError(`${this}`, value, missing);
+    }
 
-    return result;
+    return value;
   }
 
   /**
@@ -125,7 +261,8 @@ export class Template<T extends string> extends String {
    *
    * This creates a new Template instance with the template string rendered with
    * the provided partial replacements. Any placeholders that were not replaced
-   * will remain in the new template string.
+   * will remain in the new template string, as well as the sections whose
+   * value was not provided.
    *
    * @param replacements - Partial replacements to apply to the template string
    * @returns A new Template instance with the partial replacements rendered
@@ -145,16 +282,399 @@ export class Template<T extends string> extends String {
     replacements: R,
   ) {
     type NT = Template.ApplyReplacements<T, R>;
-    // @ts-ignore: ¯\_(ツ)_/¯
-    const nt = this.#render(replacements, false) as NT;
+    const nt = this.#render(replacements, true).value as NT;
     const defaults = filterKeys(this.replacements, (k) => !(k in replacements));
 
-    return new Template(nt, defaults as Template.Replacements<NT>);
+    return new Template(
+      nt,
+      defaults as Template.Replacements<NT>,
+      this.options,
+    );
+  }
+}
+
+/**
+ * Error thrown when a template is rendered in `strict` mode and some of its
+ * placeholders don't have a replacement, or when a filter can't be applied,
+ * like `truncate` with a length that isn't a non-negative integer.
+ *
+ * @example
+ *
+ * ```ts
+ * import { Template, TemplateRenderError } from "./template.ts";
+ *
+ * try {
+ *   new Template("Hi {name}!").render({});
+ * } catch (error) {
+ *   console.assert(error instanceof TemplateRenderError);
+ *   console.assert(error.missing[0].name === "name");
+ *   console.assert(error.missing[0].index === 3);
+ * }
+ * ```
+ */
+export class TemplateRenderError extends Error {
+  override name = "TemplateRenderError";
+
+  /**
+   * @param template - The template string.
+   * @param result - The rendered string, with the missing placeholders left as is.
+   * @param missing - The placeholders without a replacement.
+   * @param reason - Why the template couldn't be rendered, if it isn't because
+   * of missing placeholders. The result is empty then.
+   */
+  constructor(
+    readonly template: string,
+    readonly result: string,
+    readonly missing: Template.MissingPlaceholder[],
+    reason?: string,
+  ) {
+    const list = missing
+      .map((p) => `${p.placeholder} at index ${p.index}`)
+      .join(", ");
+
+    super(reason || `Some placeholders haven't been replaced yet: ${list}`, {
+      cause: {
+        template,
+        result,
+        missingReplacements: missing.map((p) => p.placeholder),
+      },
+    });
+  }
+}
+
+/**
+ * @ignore
+ */
+type TemplateNode =
+  | { kind: "text"; raw: string; value: string }
+  | {
+    kind: "placeholder";
+    raw: string;
+    index: number;
+    key: string;
+    filters: [name: string, args: string[]][];
+  }
+  | {
+    kind: "section";
+    open: string;
+    close: string;
+    sigil: "?" | "!" | "#";
+    key: string;
+    children: TemplateNode[];
+  };
+
+/**
+ * @ignore
+ */
+type PlaceholderNode = Extract<TemplateNode, { kind: "placeholder" }>;
+
+/**
+ * @ignore
+ */
+type SectionNode = Extract<TemplateNode, { kind: "section" }>;
+
+function parseTemplate(value: string) {
+  const root: TemplateNode[] = [];
+  const stack: SectionNode[] = [];
+  let nodes = root;
+  let index = 0;
+  let openEscapes = 0;
+
+  for (const match of value.matchAll(Template.placeholderRegex)) {
+    const raw = match[0];
+    const inner = raw.slice(1, -1);
+    const sigil = inner.charAt(0);
+
+    if (match.index! > index) {
+      const text = value.slice(index, match.index);
+
+      nodes.push({ kind: "text", raw: text, value: text });
+    }
+
+    index = match.index! + raw.length;
+
+    if (raw === "{{" || (raw === "}}" && openEscapes > 0)) {
+      openEscapes += raw === "{{" ? 1 : -1;
+      nodes.push({ kind: "text", raw, value: raw.charAt(0) });
+      continue;
+    }
+
+    if (raw === "}}") {
+      nodes.push({ kind: "text", raw, value: raw });
+      continue;
+    }
+
+    if (sigil === "?" || sigil === "!" || sigil === "#") {
+      const section: SectionNode = {
+        kind: "section",
+        open: raw,
+        close: "",
+        sigil,
+        key: inner.slice(1).trim(),
+        children: [],
+      };
+
+      nodes.push(section);
+      stack.push(section);
+      nodes = section.children;
+    } else if (sigil === "/") {
+      const section = stack.pop();
+
+      if (section === undefined || section.key !== inner.slice(1).trim()) {
+        throw new Error(`Unexpected closing tag "${raw}"`, {
+          cause: { template: value, index: match.index },
+        });
+      }
+
+      section.close = raw;
+      nodes = stack.length > 0 ? stack[stack.length - 1].children : root;
+    } else {
+      const [key, ...filters] = inner.split("|");
+
+      nodes.push({
+        kind: "placeholder",
+        raw,
+        index: match.index!,
+        key: key.trim(),
+        filters: filters.map((filter) => {
+          const [name, ...args] = filter.split(":");
+
+          return [name.trim(), args];
+        }),
+      });
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`Section "${stack[stack.length - 1].open}" is not closed`, {
+      cause: { template: value },
+    });
+  }
+
+  if (index < value.length) {
+    const text = value.slice(index);
+
+    nodes.push({ kind: "text", raw: text, value: text });
+  }
+
+  return root;
+}
+
+function resolvePath(scope: Record<string, Template.Value>, path: string) {
+  let value: Template.Value = scope;
+
+  for (const key of path === "." ? [path] : path.split(".")) {
+    if (
+      typeof value !== "object" || value === null || Array.isArray(value) ||
+      !Object.hasOwn(value, key)
+    ) {
+      return undefined;
+    }
+
+    value = value[key];
+  }
+
+  return value;
+}
+
+/**
+ * Escapes the tags and escaped braces of a replacement value, so it's rendered
+ * as literal text by the template created by a partial render. A `}}` is only
+ * doubled when it closes a `{{` of the same value.
+ */
+function escapeBraces(text: string) {
+  let openEscapes = 0;
+
+  return text.replace(Template.placeholderRegex, (match) => {
+    if (match === "{{") openEscapes++;
+
+    if (match !== "}}") return match.replace(/[{}]/g, "$&$&");
+
+    if (openEscapes === 0) return match;
+
+    openEscapes--;
+
+    return "}}}}";
+  });
+}
+
+function isPresent(value: Template.Value) {
+  if (Array.isArray(value)) return value.length > 0;
+
+  return value !== undefined && value !== null && value !== false &&
+    value !== "";
+}
+
+function applyFilters(
+  value: Template.Value,
+  node: PlaceholderNode,
+  template: string,
+) {
+  let result = value;
+
+  for (const [name, args] of node.filters) {
+    if (!Object.hasOwn(Template.filters, name)) {
+      throw new Error(`Unknown template filter "${name}"`, {
+        cause: { filter: name, available: Object.keys(Template.filters) },
+      });
+    }
+
+    try {
+      result = Template.filters[name](result, ...args);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+
+      throw new TemplateRenderError(
+        template,
+        "",
+        [],
+        `The filter "${name}" of ${node.raw} at index ${node.index} failed: ` +
+          reason,
+      );
+    }
   }
+
+  return String(result);
+}
+
+/**
+ * @ignore
+ */
+interface RenderContext {
+  template: string;
+  partial: boolean;
+  missing: Template.MissingPlaceholder[];
+  substitute: ((placeholder: Template.MissingPlaceholder) => string) | null;
+}
+
+function renderNodes(
+  nodes: TemplateNode[],
+  scope: Record<string, Template.Value>,
+  context: RenderContext,
+): string {
+  const { partial } = context;
+  let result = "";
+
+  for (const node of nodes) {
+    if (node.kind === "text") {
+      result += partial ? node.raw : node.value;
+      continue;
+    }
+
+    const value = resolvePath(scope, node.key);
+
+    if (node.kind === "placeholder") {
+      if (value === undefined) {
+        const placeholder = {
+          name: node.key,
+          placeholder: node.raw,
+          index: node.index,
+        };
+
+        if (!partial) context.missing.push(placeholder);
+
+        result += context.substitute
+          ? context.substitute(placeholder)
+          : node.raw;
+      } else {
+        const text = applyFilters(value, node, context.template);
+
+        result += partial ? escapeBraces(text) : text;
+      }
+
+      continue;
+    }
+
+    if (partial && value === undefined) {
+      const children = node.sigil === "#"
+        ? renderNodes(node.children, {}, context)
+        : renderNodes(node.children, scope, context);
+
+      result += node.open + children + node.close;
+      continue;
+    }
+
+    if (node.sigil === "?" && isPresent(value)) {
+      result += renderNodes(node.children, scope, context);
+    } else if (node.sigil === "!" && !isPresent(value)) {
+      result += renderNodes(node.children, scope, context);
+    } else if (node.sigil === "#" && isPresent(value)) {
+      const items = Array.isArray(value) ? value : [value];
+
+      for (const item of items) {
+        const itemScope = typeof item === "object" && item !== null &&
+            !Array.isArray(item)
+          ? { ...scope, ...item }
+          : { ...scope, ".": item };
+
+        result += renderNodes(node.children, itemScope, context);
+      }
+    }
+  }
+
+  return result;
 }
 
 // deno-lint-ignore no-namespace
 export namespace Template {
+  /**
+   * Represents a value that can be used as a replacement.
+   *
+   * Arrays are iterated by loop sections, and the properties of objects are
+   * available as placeholders inside them.
+   */
+  export type Value =
+    | string
+    | number
+    | boolean
+    | null
+    | undefined
+    | Value[]
+    | { [key: string]: Value };
+
+  /**
+   * How to handle placeholders without a replacement when rendering.
+   *
+   * - `strict`: Throw a {@link TemplateRenderError}.
+   * - `lenient`: Leave the placeholder as is.
+   * - `substitute`: Use the `fallback` render option.
+   */
+  export type RenderMode = "strict" | "lenient" | "substitute";
+
+  /**
+   * Represents a placeholder that didn't have a replacement.
+   */
+  export interface MissingPlaceholder {
+    /** Name of the placeholder. @example "author.name" */
+    name: string;
+    /** The placeholder as written in the template. @example "{author.name|uppercase}" */
+    placeholder: string;
+    /** Position of the placeholder in the template string. */
+    index: number;
+  }
+
+  /**
+   * Options for {@link Template.render}.
+   */
+  export interface RenderOptions {
+    /** How to handle placeholders without a replacement. Defaults to `strict`. */
+    mode?: RenderMode;
+    /**
+     * Value used for missing placeholders in `substitute` mode, either as a
+     * string or as a function receiving the missing placeholder. Defaults to
+     * an empty string.
+     */
+    fallback?: string | ((placeholder: MissingPlaceholder) => string);
+  }
+
+  /**
+   * Represents a filter that transforms the value of a placeholder.
+   *
+   * @param value - The value of the placeholder, or the result of the previous filter.
+   * @param args - Arguments written after the filter name, like `7` in `{hash|truncate:7}`.
+   */
+  export type Filter = (value: Value, ...args: string[]) => Value;
+
   /**
    * Type mapping string template placeholders to their
    * possible replacement values.
@@ -167,23 +687,40 @@ export namespace Template {
    * type TemplateString = "Hello {name}!";
    * const replacements: Template.Replacements<TemplateString> = { name: "Peter" };
    * ```
+   *
+   * @example <caption>Dotted paths are mapped to nested objects:</caption>
+   *
+   * ```ts
+   * import { Template } from "./template.ts";
+   *
+   * type TemplateString = "{author.name} <{author.email}>";
+   * const replacements: Template.Replacements<TemplateString> = {
+   *   author: { name: "Peter", email: "peter@example.com" },
+   * };
+   * ```
    */
-  export type Replacements<T extends string> = Expand<
-    {
-      [K in ExtractTemplatePlaceholders<T>[number]]: string | number | boolean;
-    }
+  export type Replacements<T extends string> = ReplacementsFromPaths<
+    ExtractTemplatePlaceholders<T>[number],
+    false
   >;
 
   /**
-   * Same as {@link Template.Replacements} but all properties are marked as optional.
+   * Same as {@link Template.Replacements} but all properties, including the
+   * nested ones, are marked as optional.
    */
-  export type PartialReplacements<T extends string> = Partial<Replacements<T>>;
+  export type PartialReplacements<T extends string> = ReplacementsFromPaths<
+    ExtractTemplatePlaceholders<T>[number],
+    true
+  >;
 
   /**
    * Represents the application of replacements to a template string.
    * It takes a template string (`T`) and a set of replacements (`R`) and
    * produce a new string with the specified replacements applied.
    *
+   * Templates with filters, sections, dotted paths or escaped braces can't be
+   * rendered at the type level, so they result in `string`.
+   *
    * @param T - A template string.
    * @param R - An object containing key-value pairs.
    *
@@ -199,10 +736,10 @@ export namespace Template {
    * const result: Result = "Hello Peter!";
    * ```
    */
-  export type ApplyReplacements<T extends string, R> = UnionToTuple<
-    ObjectEntries<R>
-  > extends ReplacementPair[]
-    ? ReplaceAllInTemplate<T, UnionToTuple<ObjectEntries<R>>>
+  export type ApplyReplacements<T extends string, R> = T extends DynamicTemplate
+    ? string
+    : UnionToTuple<ObjectEntries<R>> extends ReplacementPair[]
+      ? ReplaceAllInTemplate<T, UnionToTuple<ObjectEntries<R>>>
     : T;
 
   /**
@@ -211,12 +748,144 @@ export namespace Template {
   type ExtractTemplatePlaceholders<
     T extends string,
     Cache extends string[] = [],
-  > = T extends MultiPlaceholderTemplate
-    ? T extends `${string}{${infer S}}${infer Rest}`
-      ? ExtractTemplatePlaceholders<Rest, [...Cache, S]>
+  > = T extends `${string}{${infer After}`
+    ? After extends `{${infer Escaped}`
+      ? ExtractTemplatePlaceholders<Escaped, Cache>
+    : After extends `${infer S}}${infer Rest}`
+      ? [PlaceholderName<S>] extends [never]
+        ? ExtractTemplatePlaceholders<After, Cache>
+      : ExtractTemplatePlaceholders<Rest, [...Cache, PlaceholderName<S>]>
     : Cache
     : Cache;
 
+  /**
+   * @ignore
+   */
+  type PlaceholderName<S extends string> = S extends
+    `${"?" | "!" | "#"}${infer N}` ? TagName<N>
+    : S extends `/${string}` ? never
+    : TagName<S>;
+
+  /**
+   * @ignore
+   */
+  type TagName<S extends string> = S extends `${infer N}|${infer F}`
+    ? IsPath<N> extends true ? IsFilterList<F> extends true ? N : never
+    : never
+    : IsPath<S> extends true ? S
+    : never;
+
+  /**
+   * @ignore
+   */
+  type Digit = "0" | "1" | "2" | "3" | "4" | "5" | "6" | "7" | "8" | "9";
+
+  /**
+   * @ignore
+   */
+  type Letter =
+    | "a"
+    | "b"
+    | "c"
+    | "d"
+    | "e"
+    | "f"
+    | "g"
+    | "h"
+    | "i"
+    | "j"
+    | "k"
+    | "l"
+    | "m"
+    | "n"
+    | "o"
+    | "p"
+    | "q"
+    | "r"
+    | "s"
+    | "t"
+    | "u"
+    | "v"
+    | "w"
+    | "x"
+    | "y"
+    | "z";
+
+  /**
+   * @ignore
+   */
+  type IdentifierStart = Letter | Uppercase<Letter> | "_";
+
+  /**
+   * Whether a string is an identifier, like `[A-Za-z_]\w*` in
+   * {@link Template.placeholderRegex}.
+   *
+   * @ignore
+   */
+  type IsIdentifier<S extends string> = S extends
+    `${IdentifierStart}${infer Rest}` ? IsIdentifierRest<Rest>
+    : false;
+
+  /**
+   * @ignore
+   */
+  type IsIdentifierRest<S extends string> = S extends "" ? true
+    : S extends `${IdentifierStart | Digit}${infer Rest}`
+      ? IsIdentifierRest<Rest>
+    : false;
+
+  /**
+   * @ignore
+   */
+  type IsPath<S extends string> = S extends `${infer Head}.${infer Rest}`
+    ? IsIdentifier<Head> extends true ? IsPath<Rest> : false
+    : IsIdentifier<S>;
+
+  /**
+   * @ignore
+   */
+  type IsFilterList<F extends string> = F extends `${string}{${string}` ? false
+    : F extends `${infer First}|${infer Rest}`
+      ? IsFilter<First> extends true ? IsFilterList<Rest> : false
+    : IsFilter<F>;
+
+  /**
+   * @ignore
+   */
+  type IsFilter<F extends string> = F extends `${infer Name}:${string}`
+    ? IsIdentifier<Name>
+    : IsIdentifier<F>;
+
+  /**
+   * @ignore
+   */
+  type DynamicTemplate =
+    | `${string}{${"?" | "!" | "#"}${string}}${string}`
+    | `${string}{${string}|${string}}${string}`
+    | `${string}{${string}.${string}}${string}`
+    | `${string}${"{{" | "}}"}${string}`;
+
+  /**
+   * @ignore
+   */
+  type PathToObject<P extends string, Optional extends boolean> = P extends
+    `${infer Head}.${infer Rest}`
+    ? Optional extends true ? { [K in Head]?: PathToObject<Rest, Optional> }
+    : { [K in Head]: PathToObject<Rest, Optional> }
+    : Optional extends true ? { [K in P]?: Value }
+    : { [K in P]: Value };
+
+  /**
+   * @ignore
+   */
+  type ReplacementsFromPaths<P extends string, Optional extends boolean> =
+    [P] extends [never] ? { [K in P]: Value }
+      : Expand<
+        UnionToIntersection<
+          P extends string ? PathToObject<P, Optional> : never
+        >
+      >;
+
   /**
    * @ignore
    */
@@ -248,15 +917,4 @@ export namespace Template {
         : ReplaceAllInTemplate<ApplyReplacementToTemplate<T, F>, []>
       : T
     : T;
-
-  /**
-   * @ignore
-   */
-  type SinglePlaceholderTemplate = `{${string}}`;
-
-  /**
-   * @ignore
-   */
-  type MultiPlaceholderTemplate =
-    `${string}${SinglePlaceholderTemplate}${string}`;
 }
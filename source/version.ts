@@ -0,0 +1,232 @@
+import { parseCommit, ParsedCommit } from "./commit.ts";
+import {
+  Configuration,
+  ReleaseType,
+  ReleaseTypeSchema,
+} from "./configuration.ts";
+
+/**
+ * Regular expression to match a semantic version, with an optional `v` prefix.
+ */
+const VERSION_REGEX =
+  /^v?(?<major>0|[1-9]\d*)\.(?<minor>0|[1-9]\d*)\.(?<patch>0|[1-9]\d*)(?:-(?<prerelease>[\w.-]+))?(?:\+(?<build>[\w.-]+))?$/;
+
+/**
+ * Represents the numeric parts of a semantic version.
+ */
+export interface Version {
+  major: number;
+  minor: number;
+  patch: number;
+  /** Pre-release identifier, if any. @example "beta.1" */
+  prerelease: string | null;
+}
+
+/**
+ * Represents a commit that requires a release, and the release type it
+ * requires.
+ */
+export interface ReleaseReason {
+  /** The parsed commit. */
+  commit: ParsedCommit;
+  /** Release type required by the commit. */
+  release: ReleaseType;
+  /** Human readable explanation of why the commit requires the release. */
+  description: string;
+}
+
+/**
+ * Result of computing the next version.
+ */
+export interface NextVersion {
+  /** The current version, as given. */
+  current: string;
+  /** The next version. Same as the current one if no release is needed. */
+  next: string;
+  /** The release type applied to the current version, if any. */
+  release: ReleaseType | null;
+  /** The first commit that required the applied release type, if any. */
+  reason: ReleaseReason | null;
+}
+
+/**
+ * Parses a semantic version string like `1.2.3`, `v1.2.3` or `1.2.3-beta.1`.
+ * Build metadata is discarded.
+ *
+ * @param value - The version string.
+ * @returns The parsed version.
+ * @throws {Error} If the value isn't a valid semantic version.
+ */
+export function parseVersion(value: string): Version {
+  const match = VERSION_REGEX.exec(value.trim());
+
+  if (match === null || !match.groups) {
+    throw new Error(`"${value}" is not a valid semantic version.`, {
+      cause: { value },
+    });
+  }
+
+  const { major, minor, patch, prerelease } = match.groups;
+
+  return {
+    major: Number(major),
+    minor: Number(minor),
+    patch: Number(patch),
+    prerelease: prerelease || null,
+  };
+}
+
+/**
+ * Formats a version object as a semantic version string.
+ *
+ * @param version - The version to format.
+ * @returns The version string, without a `v` prefix.
+ */
+export function formatVersion(version: Version) {
+  const { major, minor, patch, prerelease } = version;
+  const value = `${major}.${minor}.${patch}`;
+
+  return prerelease ? `${value}-${prerelease}` : value;
+}
+
+/**
+ * Increments a version by the given release type.
+ *
+ * A pre-release version is promoted to its release version when it already
+ * has the required precedence, like `npm version` does. For example,
+ * `2.0.0-beta.1` becomes `2.0.0` on a major release.
+ *
+ * @param version - The version to increment.
+ * @param release - The release type.
+ * @returns The incremented version.
+ */
+export function incrementVersion(
+  version: Version,
+  release: ReleaseType,
+): Version {
+  const { major, minor, patch, prerelease } = version;
+  const isPrerelease = prerelease !== null;
+
+  switch (release) {
+    case "major":
+      if (isPrerelease && minor === 0 && patch === 0) {
+        return { major, minor, patch, prerelease: null };
+      }
+
+      return { major: major + 1, minor: 0, patch: 0, prerelease: null };
+    case "minor":
+      if (isPrerelease && patch === 0) {
+        return { major, minor, patch, prerelease: null };
+      }
+
+      return { major, minor: minor + 1, patch: 0, prerelease: null };
+    case "patch":
+      if (isPrerelease) return { major, minor, patch, prerelease: null };
+
+      return { major, minor, patch: patch + 1, prerelease: null };
+  }
+}
+
+/**
+ * Gets the release type required by a single commit.
+ *
+ * Breaking changes always require a major release. Otherwise, the `semver`
+ * of the commit alias is used if there's one, or the `semver` of the commit
+ * type if there isn't.
+ *
+ * @param commit - The parsed commit.
+ * @returns The release type, or `null` if the commit doesn't require one.
+ */
+export function getCommitRelease(commit: ParsedCommit): ReleaseType | null {
+  if (commit.breaking) return "major";
+  if (commit.alias !== null) return commit.alias.semver;
+
+  return commit.commitType.semver;
+}
+
+function compareReleases(a: ReleaseType, b: ReleaseType) {
+  const releases = ReleaseTypeSchema.options;
+
+  return releases.indexOf(b) - releases.indexOf(a);
+}
+
+function describeRelease(commit: ParsedCommit, release: ReleaseType) {
+  if (commit.breaking) {
+    return `"${commit.header}" introduces a breaking change.`;
+  }
+
+  const source = commit.alias !== null
+    ? `commit alias "${commit.alias.name}"`
+    : `commit type "${commit.commitType.type}"`;
+
+  return `"${commit.header}" has ${source}, which requires a ${release} release.`;
+}
+
+/**
+ * Computes the next version from a list of commit messages.
+ *
+ * The highest release type required by the commits is applied to the current
+ * version. While the current major version is `0`, the public API is not
+ * considered stable, so breaking changes bump the minor version and features
+ * bump the patch version.
+ *
+ * @param messages - Raw commit messages.
+ * @param current - The current version.
+ * @param config - Configuration used to resolve the commit types.
+ * @returns The next version and the commit that drove the release.
+ *
+ * @example
+ *
+ * ```ts
+ * import { Configuration } from "./configuration.ts";
+ * import { getNextVersion } from "./version.ts";
+ *
+ * const config = Configuration.fromFile("path/to/config.json");
+ * const result = getNextVersion(
+ *   ["🐛 fix: handle empty input", "✨ feat(api)!: add pagination"],
+ *   "1.2.3",
+ *   config,
+ * );
+ *
+ * console.assert(result.next === "2.0.0");
+ * console.assert(result.reason?.commit.header === "✨ feat(api)!: add pagination");
+ * ```
+ */
+export function getNextVersion(
+  messages: string[],
+  current: string,
+  config: Configuration,
+): NextVersion {
+  const version = parseVersion(current);
+  let reason: ReleaseReason | null = null;
+
+  for (const message of messages) {
+    const commit = parseCommit(message, config);
+    const release = getCommitRelease(commit);
+
+    if (release === null) continue;
+
+    if (reason === null || compareReleases(release, reason.release) > 0) {
+      const description = describeRelease(commit, release);
+
+      reason = { commit, release, description };
+    }
+  }
+
+  if (reason === null) {
+    return { current, next: formatVersion(version), release: null, reason };
+  }
+
+  let release = reason.release;
+
+  if (version.major === 0) {
+    release = release === "major" ? "minor" : "patch";
+  }
+
+  return {
+    current,
+    next: formatVersion(incrementVersion(version, release)),
+    release,
+    reason,
+  };
+}
@@ -0,0 +1,148 @@
+import {
+  createChangelogRelease,
+  prependChangelogRelease,
+  renderChangelog,
+} from "../source/changelog.ts";
+import { parseCommit } from "../source/commit.ts";
+import { Configuration } from "../source/configuration.ts";
+import { expect } from "./dev-dependencies.ts";
+
+const config = Configuration.fromFile(
+  "./test/fixtures/configuration/defaults.json",
+);
+
+const DATE = new Date("2023-12-01T12:00:00Z");
+
+function createRelease(messages: string[]) {
+  const commits = messages.map((message) => parseCommit(message, config));
+
+  return createChangelogRelease(commits, config, {
+    version: "1.2.0",
+    date: DATE,
+  });
+}
+
+Deno.test("createChangelogRelease() groups commits into sections sorted by the configured order", () => {
+  const release = createRelease([
+    "🐛 fix: handle empty input",
+    "✨ feat(api): add pagination",
+    "🐛 fix(api): handle null",
+  ]);
+
+  expect(release.version).to.equal("1.2.0");
+  expect(release.date).to.equal("2023-12-01");
+  expect(release.sections.map((s) => s.title)).to.deep.equal([
+    "Features",
+    "Bug Fixes",
+  ]);
+  expect(release.sections[1].entries.map((e) => e.subject)).to.deep.equal([
+    "handle empty input",
+    "handle null",
+  ]);
+});
+
+Deno.test("createChangelogRelease() leaves out commit types and aliases excluded from the changelog", () => {
+  const release = createRelease([
+    "💎 style: format code",
+    "🎉 initial: first commit",
+    "📦 dependencies: bump zod",
+  ]);
+
+  expect(release.sections).to.have.length(1);
+  expect(release.sections[0].type).to.equal("build");
+  expect(release.sections[0].entries[0].emoji).to.equal("📦");
+});
+
+Deno.test("createChangelogRelease() leaves out the commits written by git", () => {
+  const commits = [
+    "Merge branch 'feat/pagination'",
+    'Revert "✨ feat(api): add pagination"',
+    "fixup! 🐛 fix: handle empty input",
+    "🐛 fix: handle empty input",
+  ].map((message) => parseCommit(message, config));
+  const release = createChangelogRelease(commits, config, { version: "1.2.0" });
+  const all = createChangelogRelease(commits, config, {
+    version: "1.2.0",
+    ignores: [],
+  });
+
+  expect(release.sections).to.have.length(1);
+  expect(release.sections[0].entries).to.have.length(1);
+  expect(all.sections.flatMap((s) => s.entries)).to.have.length(4);
+});
+
+Deno.test("renderChangelog() renders a release as Markdown", () => {
+  const release = createRelease([
+    "✨ feat(api)!: add pagination",
+    "🐛 fix: handle empty input",
+  ]);
+
+  expect(renderChangelog(release)).to.equal(
+    [
+      "## 1.2.0 (2023-12-01)",
+      "",
+      "### Features",
+      "",
+      "- ✨ **BREAKING** **api:** add pagination",
+      "",
+      "### Bug Fixes",
+      "",
+      "- 🐛 handle empty input",
+      "",
+    ].join("\n"),
+  );
+});
+
+Deno.test("renderChangelog() renders a release as JSON", () => {
+  const release = createRelease(["✨ feat(api): add pagination"]);
+  const json = JSON.parse(renderChangelog(release, "json"));
+
+  expect(json).to.deep.equal(release);
+});
+
+Deno.test("prependChangelogRelease() inserts the release before older releases", () => {
+  const changelog = [
+    "# Changelog",
+    "",
+    "## 1.1.0 (2023-11-01)",
+    "",
+    "### Features",
+    "",
+    "- ✨ old feature",
+    "",
+  ].join("\n");
+  const release = createRelease(["✨ feat: add pagination"]);
+  const result = prependChangelogRelease(changelog, renderChangelog(release));
+
+  expect(result).to.equal(
+    [
+      "# Changelog",
+      "",
+      "## 1.2.0 (2023-12-01)",
+      "",
+      "### Features",
+      "",
+      "- ✨ add pagination",
+      "",
+      "## 1.1.0 (2023-11-01)",
+      "",
+      "### Features",
+      "",
+      "- ✨ old feature",
+      "",
+    ].join("\n"),
+  );
+});
+
+Deno.test("prependChangelogRelease() appends the release when the changelog has no releases", () => {
+  const result = prependChangelogRelease("# Changelog\n", "## 1.0.0 (date)\n");
+
+  expect(result).to.equal("# Changelog\n\n## 1.0.0 (date)\n");
+});
+
+Deno.test("prependChangelogRelease() throws an error when the release is already in the changelog", () => {
+  const section = "## 1.0.0 (2023-12-01)\n";
+  const prepend = prependChangelogRelease.bind(null, section, section);
+
+  expect(prepend).to.throw(Error);
+});
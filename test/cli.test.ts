@@ -0,0 +1,329 @@
+import { EXIT_CODES, runCli } from "../source/cli.ts";
+import { expect } from "./dev-dependencies.ts";
+import { commit, createDirectory, createRepository, git } from "./helpers.ts";
+
+const FIXTURES_DIR_PATH = `${Deno.cwd()}/test/fixtures/configuration`;
+
+const CONFIG_ARGS = ["--config", `${FIXTURES_DIR_PATH}/defaults.json`];
+
+interface RunOptions {
+  cwd?: string;
+  env?: Record<string, string>;
+  stdin?: string;
+  answers?: string[];
+}
+
+function run(args: string[], options: RunOptions = {}) {
+  const output = { stdout: "", stderr: "" };
+  const answers = [...options.answers || []];
+  const code = runCli(args, {
+    cwd: options.cwd || Deno.cwd(),
+    env: options.env || {},
+    readStdin: () => options.stdin || "",
+    prompt: () => answers.shift() ?? null,
+    stdout: (text) => output.stdout += text,
+    stderr: (text) => output.stderr += text,
+  });
+
+  return { code, ...output };
+}
+
+function createTaggedRepository(messages: string[]) {
+  const cwd = createRepository();
+
+  commit(cwd, "🎉 initial: first commit");
+  git(cwd, "tag", "v1.2.3");
+
+  for (const message of messages) commit(cwd, message);
+
+  return cwd;
+}
+
+Deno.test("runCli() lints the commit message read from stdin", () => {
+  const valid = run(["lint", ...CONFIG_ARGS], {
+    stdin: "✨ feat(api): add pagination",
+  });
+  const invalid = run(["lint", ...CONFIG_ARGS], {
+    stdin: "🐛 feat: add pagination",
+  });
+
+  expect(valid).to.deep.equal({
+    code: EXIT_CODES.success,
+    stdout: "",
+    stderr: "",
+  });
+  expect(invalid.code).to.equal(EXIT_CODES.failure);
+  expect(invalid.stdout).to.equal(
+    'error: Emoji "🐛" doesn\'t match "feat". Expected "✨" or ":sparkles:". ' +
+      "[emoji-match]\n",
+  );
+});
+
+Deno.test("runCli() lints the commit message read from a file", () => {
+  const cwd = createDirectory();
+
+  try {
+    Deno.writeTextFileSync(
+      `${cwd}/COMMIT_EDITMSG`,
+      "feta: add pagination\n# Please enter the commit message.\n",
+    );
+
+    const { code, stdout } = run(
+      ["lint", "COMMIT_EDITMSG", "--format", "json", ...CONFIG_ARGS],
+      { cwd },
+    );
+    const result = JSON.parse(stdout);
+
+    expect(code).to.equal(EXIT_CODES.failure);
+    expect(result.valid).to.be.false;
+    expect(result.diagnostics[0].rule).to.equal("type-enum");
+  } finally {
+    Deno.removeSync(cwd, { recursive: true });
+  }
+});
+
+Deno.test("runCli() lists the commit types and their aliases in order", () => {
+  const text = run(["types", ...CONFIG_ARGS]);
+  const json = run(["types", "--format=json", ...CONFIG_ARGS]);
+  const entries = JSON.parse(json.stdout);
+
+  expect(text.code).to.equal(EXIT_CODES.success);
+  expect(text.stdout.split("\n").slice(0, 4)).to.deep.equal([
+    "✨ feat (minor): A new feature.",
+    "  🚨 breaking -> feat (major): Introduce breaking changes.",
+    "  🎉 initial -> feat: Initial commit.",
+    "🐛 fix (minor): A bug fix.",
+  ]);
+  expect(entries.filter((e: { kind: string }) => e.kind === "type"))
+    .to.have.length(10);
+  expect(entries[1]).to.deep.include({ kind: "alias", type: "feat" });
+});
+
+Deno.test("runCli() applies the environment variable overrides to the --config file", () => {
+  const { code, stdout } = run(["types", "--format", "json", ...CONFIG_ARGS], {
+    env: { CONVENTIONAL_GITMOJI_ORDER: "docs, fix" },
+  });
+  const types = JSON.parse(stdout)
+    .filter((e: { kind: string }) => e.kind === "type")
+    .map((e: { name: string }) => e.name);
+  const invalid = run(["config", "validate", ...CONFIG_ARGS], {
+    env: { CONVENTIONAL_GITMOJI_FALLBACK: "feta" },
+  });
+
+  expect(code).to.equal(EXIT_CODES.success);
+  expect(types.slice(0, 2)).to.deep.equal(["docs", "fix"]);
+  expect(invalid.code).to.equal(EXIT_CODES.failure);
+  expect(invalid.stdout).to.include("CONVENTIONAL_GITMOJI_FALLBACK");
+});
+
+Deno.test("runCli() validates the configuration", () => {
+  const valid = run(["config", "validate", ...CONFIG_ARGS]);
+  const invalid = run([
+    "config",
+    "validate",
+    "--format",
+    "json",
+    "--config",
+    `${FIXTURES_DIR_PATH}/broken-references.json`,
+  ]);
+
+  expect(valid.code).to.equal(EXIT_CODES.success);
+  expect(valid.stdout).to.equal("The configuration is valid.\n");
+  expect(invalid.code).to.equal(EXIT_CODES.failure);
+  expect(JSON.parse(invalid.stdout).valid).to.be.false;
+  expect(JSON.parse(invalid.stdout).problems).not.to.be.empty;
+});
+
+Deno.test("runCli() computes the next version from the commits since the latest tag", () => {
+  const cwd = createTaggedRepository([
+    "🐛 fix: handle empty input",
+    "✨ feat: add pagination",
+  ]);
+
+  try {
+    const text = run(["next-version", ...CONFIG_ARGS], { cwd });
+    const json = run([
+      "next-version",
+      "2.0.0",
+      "--format",
+      "json",
+      ...CONFIG_ARGS,
+    ], {
+      cwd,
+    });
+
+    expect(text).to.deep.equal({
+      code: EXIT_CODES.success,
+      stdout: "1.3.0\n",
+      stderr: "",
+    });
+    expect(JSON.parse(json.stdout)).to.deep.include({
+      current: "2.0.0",
+      next: "2.1.0",
+      release: "minor",
+    });
+  } finally {
+    Deno.removeSync(cwd, { recursive: true });
+  }
+});
+
+Deno.test("runCli() renders the changelog of the commits since the latest tag", () => {
+  const cwd = createTaggedRepository(["✨ feat(api): add pagination"]);
+
+  try {
+    const { code, stdout } = run(["changelog", ...CONFIG_ARGS], { cwd });
+
+    expect(code).to.equal(EXIT_CODES.success);
+    expect(stdout).to.match(/^## 1\.3\.0 \(\d{4}-\d{2}-\d{2}\)\n/);
+    expect(stdout).to.include("### Features\n\n- ✨ **api:** add pagination\n");
+  } finally {
+    Deno.removeSync(cwd, { recursive: true });
+  }
+});
+
+Deno.test("runCli() leaves the merge and fixup commits out of the changelog", () => {
+  const cwd = createTaggedRepository([]);
+
+  try {
+    git(cwd, "checkout", "--quiet", "-b", "feat/pagination");
+    commit(cwd, "✨ feat(api): add pagination");
+    git(cwd, "checkout", "--quiet", "main");
+    git(cwd, "merge", "--quiet", "--no-ff", "--no-edit", "feat/pagination");
+    git(cwd, "commit", "--quiet", "--allow-empty", "--fixup", "HEAD^2");
+
+    const { code, stdout } = run(["changelog", ...CONFIG_ARGS], { cwd });
+
+    expect(code).to.equal(EXIT_CODES.success);
+    expect(stdout.match(/^### .*$/gm)).to.deep.equal(["### Features"]);
+    expect(stdout).to.include("- ✨ **api:** add pagination\n");
+    expect(stdout).not.to.include("Merge branch");
+    expect(stdout).not.to.include("fixup!");
+  } finally {
+    Deno.removeSync(cwd, { recursive: true });
+  }
+});
+
+Deno.test("runCli() returns the usage exit code when the arguments aren't valid", () => {
+  for (
+    const args of [
+      [],
+      ["deploy"],
+      ["toString"],
+      ["constructor"],
+      ["__proto__"],
+      ["types", "--verbose"],
+      ["types", "--format", "yaml"],
+      ["config", "check"],
+    ]
+  ) {
+    const { code, stdout, stderr } = run(args);
+
+    expect(code, args.join(" ")).to.equal(EXIT_CODES.usage);
+    expect(stdout).to.equal("");
+    expect(stderr).to.include("Usage: conventional-gitmoji");
+  }
+
+  expect(run(["--help"]).stdout).to.include("Usage: conventional-gitmoji");
+});
+
+Deno.test("runCli() returns the failure exit code when the command can't run", () => {
+  const cwd = createTaggedRepository([]);
+
+  try {
+    const missing = run(["types", "--config", "missing.json"]);
+    const range = run(
+      ["changelog", "--range", "v9.9.9..HEAD", ...CONFIG_ARGS],
+      {
+        cwd,
+      },
+    );
+
+    expect(missing.code).to.equal(EXIT_CODES.failure);
+    expect(missing.stderr).not.to.equal("");
+    expect(range.code).to.equal(EXIT_CODES.failure);
+    expect(range.stderr).to.include("The git command failed");
+  } finally {
+    Deno.removeSync(cwd, { recursive: true });
+  }
+});
+
+Deno.test("runCli() composes a commit message and writes it to the given file", () => {
+  const cwd = createDirectory();
+
+  try {
+    Deno.writeTextFileSync(
+      `${cwd}/COMMIT_EDITMSG`,
+      "\n# Please enter the commit message.\n",
+    );
+
+    const { code, stdout, stderr } = run([
+      "compose",
+      "COMMIT_EDITMSG",
+      ...CONFIG_ARGS,
+    ], {
+      cwd,
+      answers: ["release", "", "1.3.0", "", "", ""],
+    });
+
+    expect(code).to.equal(EXIT_CODES.success);
+    expect(stdout).to.equal("");
+    expect(stderr).to.include("  │ 🔖 release: 1.3.0\n");
+    expect(Deno.readTextFileSync(`${cwd}/COMMIT_EDITMSG`)).to.equal(
+      "🔖 release: 1.3.0\n\n# Please enter the commit message.\n",
+    );
+  } finally {
+    Deno.removeSync(cwd, { recursive: true });
+  }
+});
+
+Deno.test("runCli() fails when the input ends before the commit message is composed", () => {
+  const { code, stdout, stderr } = run(["compose", ...CONFIG_ARGS], {
+    answers: ["feat", "api"],
+  });
+
+  expect(code).to.equal(EXIT_CODES.failure);
+  expect(stdout).to.equal("");
+  expect(stderr).to.include("The commit message was not finished.");
+});
+
+Deno.test("runCli() installs the git hooks and reports the existing ones", () => {
+  const cwd = createTaggedRepository([]);
+
+  try {
+    Deno.mkdirSync(`${cwd}/.git/hooks`, { recursive: true });
+    Deno.writeTextFileSync(`${cwd}/.git/hooks/commit-msg`, "#!/bin/sh\n");
+
+    const { code, stdout, stderr } = run(["hooks", "install"], { cwd });
+
+    expect(code).to.equal(EXIT_CODES.failure);
+    expect(stdout).to.equal(
+      `skipped commit-msg: ${cwd}/.git/hooks/commit-msg\n` +
+        `installed prepare-commit-msg: ${cwd}/.git/hooks/prepare-commit-msg\n`,
+    );
+    expect(stderr).to.include("The commit-msg hook already exists.");
+    expect(run(["hooks", "remove"], { cwd }).code).to.equal(EXIT_CODES.usage);
+  } finally {
+    Deno.removeSync(cwd, { recursive: true });
+  }
+});
+
+Deno.test("runCli() prefills the commit message file of the prepare-commit-msg hook", () => {
+  const cwd = createTaggedRepository([]);
+
+  try {
+    const path = `${cwd}/.git/COMMIT_EDITMSG`;
+
+    git(cwd, "checkout", "--quiet", "-b", "fix/empty-input");
+    Deno.writeTextFileSync(path, "\n# Please enter the commit message.\n");
+
+    const { code } = run(["prefill", path, ...CONFIG_ARGS], { cwd });
+
+    expect(code).to.equal(EXIT_CODES.success);
+    expect(Deno.readTextFileSync(path)).to.equal(
+      "🐛 fix: \n\n# Please enter the commit message.\n",
+    );
+    expect(run(["prefill"], { cwd }).code).to.equal(EXIT_CODES.usage);
+  } finally {
+    Deno.removeSync(cwd, { recursive: true });
+  }
+});
@@ -0,0 +1,309 @@
+import { formatCommit, parseCommit } from "../source/commit.ts";
+import { Configuration } from "../source/configuration.ts";
+import { TemplateRenderError } from "../source/template.ts";
+import { expect } from "./dev-dependencies.ts";
+
+const config = Configuration.fromFile(
+  "./test/fixtures/configuration/defaults.json",
+);
+
+Deno.test("parseCommit() parses a header with an emoji character, type, scope and breaking mark", () => {
+  const commit = parseCommit("✨ feat(api)!: add pagination", config);
+
+  expect(commit.emoji).to.equal("✨");
+  expect(commit.type).to.equal("feat");
+  expect(commit.scope).to.equal("api");
+  expect(commit.subject).to.equal("add pagination");
+  expect(commit.breaking).to.be.true;
+  expect(commit.commitType.type).to.equal("feat");
+  expect(commit.resolution).to.equal("type");
+});
+
+Deno.test("parseCommit() parses a header with an emoji code and no scope", () => {
+  const commit = parseCommit(":sparkles: feat: add pagination", config);
+
+  expect(commit.emoji).to.equal(":sparkles:");
+  expect(commit.scope).to.be.null;
+  expect(commit.breaking).to.be.false;
+  expect(commit.commitType.type).to.equal("feat");
+});
+
+Deno.test("parseCommit() parses a header without an emoji", () => {
+  const commit = parseCommit("fix: handle empty input", config);
+
+  expect(commit.emoji).to.be.null;
+  expect(commit.commitType.type).to.equal("fix");
+  expect(commit.subject).to.equal("handle empty input");
+});
+
+Deno.test("parseCommit() resolves the commit type through an alias name", () => {
+  const commit = parseCommit("📦 dependencies(deps): bump zod", config);
+
+  expect(commit.commitType.type).to.equal("build");
+  expect(commit.alias?.name).to.equal("dependencies");
+  expect(commit.resolution).to.equal("alias");
+});
+
+Deno.test("parseCommit() resolves the commit type through an emoji when there's no type", () => {
+  const byTypeCode = parseCommit(":broom: tidy up", config);
+  const byTypeCharacter = parseCommit("🐛 handle empty input", config);
+  const byAliasCode = parseCommit(":tada: first commit", config);
+
+  expect(byTypeCode.commitType.type).to.equal("chore");
+  expect(byTypeCode.resolution).to.equal("type-emoji");
+  expect(byTypeCharacter.commitType.type).to.equal("fix");
+  expect(byAliasCode.commitType.type).to.equal("feat");
+  expect(byAliasCode.alias?.name).to.equal("initial");
+  expect(byAliasCode.resolution).to.equal("alias-emoji");
+});
+
+Deno.test("parseCommit() uses the fallback type when nothing matches", () => {
+  const commit = parseCommit("Merge branch 'main' into dev", config);
+
+  expect(commit.type).to.be.null;
+  expect(commit.subject).to.equal("Merge branch 'main' into dev");
+  expect(commit.commitType.type).to.equal(config.fallback);
+  expect(commit.resolution).to.equal("fallback");
+});
+
+Deno.test("parseCommit() uses the fallback type when the type is a property of Object.prototype", () => {
+  for (
+    const header of ["constructor: foo", "toString: foo", "__proto__: foo"]
+  ) {
+    const commit = parseCommit(header, config);
+
+    expect(commit.commitType.type, header).to.equal(config.fallback);
+    expect(commit.resolution, header).to.equal("fallback");
+  }
+});
+
+Deno.test("parseCommit() resolves emoji characters written without their variation selector", () => {
+  const commit = parseCommit("♻ move helpers to their own module", config);
+
+  expect(commit.commitType.type).to.equal("refactor");
+  expect(commit.resolution).to.equal("type-emoji");
+});
+
+Deno.test("parseCommit() parses emoji characters written with their variation selector", () => {
+  const gitmoji = Configuration.fromPreset("gitmoji");
+
+  for (
+    const [header, type] of [
+      ["⚡️ perf: cache the parsed configuration", "perf"],
+      ["🚑️ ambulance: handle empty input", "fix"],
+      ["♻️ move helpers to their own module", "refactor"],
+    ]
+  ) {
+    const commit = parseCommit(header, gitmoji);
+
+    expect(commit.emoji, header).to.equal(header.split(" ")[0]);
+    expect(commit.commitType.type, header).to.equal(type);
+    expect(commit.resolution, header).not.to.equal("fallback");
+  }
+});
+
+Deno.test("parseCommit() splits the body and footers", () => {
+  const commit = parseCommit(
+    [
+      "fix(parser): handle empty input",
+      "",
+      "The parser crashed when the input was empty.",
+      "",
+      "Now it returns an empty result.",
+      "",
+      "Refs: #123",
+      "Closes #42",
+      "BREAKING CHANGE: empty input no longer throws",
+      "  and returns null instead.",
+    ].join("\n"),
+    config,
+  );
+
+  expect(commit.body).to.equal(
+    "The parser crashed when the input was empty.\n\nNow it returns an empty result.",
+  );
+  expect(commit.footers).to.deep.equal([
+    { token: "Refs", value: "#123", separator: ": " },
+    { token: "Closes", value: "#42", separator: " #" },
+    {
+      token: "BREAKING CHANGE",
+      value: "empty input no longer throws\n  and returns null instead.",
+      separator: ": ",
+    },
+  ]);
+  expect(commit.breaking).to.be.true;
+});
+
+Deno.test("parseCommit() ignores the diff below the scissors line of a verbose commit", () => {
+  const commit = parseCommit(
+    [
+      "fix(parser): handle empty input",
+      "",
+      "# Please enter the commit message.",
+      "# ------------------------ >8 ------------------------",
+      "# Do not modify or remove the line above.",
+      "diff --git a/source/parser.ts b/source/parser.ts",
+      "",
+      "Fixes: #12",
+    ].join("\n"),
+    config,
+  );
+
+  expect(commit.raw).to.equal("fix(parser): handle empty input");
+  expect(commit.body).to.be.null;
+  expect(commit.footers).to.be.empty;
+});
+
+Deno.test("parseCommit() ignores comment lines", () => {
+  const commit = parseCommit(
+    "docs: update readme\n# Please enter the commit message\n",
+    config,
+  );
+
+  expect(commit.body).to.be.null;
+  expect(commit.footers).to.be.empty;
+});
+
+Deno.test("parseCommit() reports the location of each header part", () => {
+  const header = "✨ feat(api): add pagination";
+  const { spans } = parseCommit(header, config);
+
+  expect(header.slice(...spans.emoji!)).to.equal("✨");
+  expect(header.slice(...spans.type!)).to.equal("feat");
+  expect(header.slice(...spans.scope!)).to.equal("api");
+  expect(header.slice(...spans.subject!)).to.equal("add pagination");
+});
+
+Deno.test("formatCommit() formats a header with the emoji, type, scope and breaking mark", () => {
+  expect(
+    formatCommit(
+      { type: "feat", scope: "api", subject: "add pagination" },
+      config,
+    ),
+  )
+    .to.equal("✨ feat(api): add pagination");
+  expect(
+    formatCommit({
+      type: "dependencies",
+      subject: " bump zod ",
+      breaking: true,
+    }, config),
+  ).to.equal("📦 dependencies!: bump zod");
+});
+
+Deno.test("formatCommit() writes the emoji in the given style", () => {
+  const data = { type: "feat", scope: "api", subject: "add pagination" };
+
+  expect(formatCommit(data, config, { emoji: "code" })).to.equal(
+    ":sparkles: feat(api): add pagination",
+  );
+  expect(formatCommit(data, config, { emoji: "none" })).to.equal(
+    "feat(api): add pagination",
+  );
+  expect(
+    formatCommit(data, config, {
+      header: "{emoji} {type}({scope}): {subject|capitalize}",
+      emoji: "none",
+    }),
+  ).to.equal("feat(api): Add pagination");
+});
+
+Deno.test("formatCommit() wraps the body paragraphs", () => {
+  const body = "Pages have 20 items by default, and the cursor of the next " +
+    "page is returned in the response headers.\n\n- keep\n- lists";
+
+  expect(
+    formatCommit({ type: "feat", subject: "add pagination", body }, config),
+  )
+    .to.equal(
+      "✨ feat: add pagination\n\n" +
+        "Pages have 20 items by default, and the cursor of the next page is\n" +
+        "returned in the response headers.\n\n- keep\n- lists",
+    );
+  expect(
+    formatCommit({ type: "feat", subject: "add pagination", body }, config, {
+      wrap: null,
+    }),
+  ).to.include(`\n\n${body}`);
+});
+
+Deno.test("formatCommit() writes the footers in the given order", () => {
+  const data = {
+    type: "fix",
+    subject: "handle empty input",
+    breaking: "empty input throws",
+    footers: [
+      { token: "Signed-off-by", value: "Bot <bot@example.com>" },
+      { token: "Refs", value: "#12" },
+    ],
+  };
+
+  expect(formatCommit(data, config)).to.equal(
+    "🐛 fix!: handle empty input\n\nBREAKING CHANGE: empty input throws\n" +
+      "Signed-off-by: Bot <bot@example.com>\nRefs: #12",
+  );
+  expect(
+    formatCommit(data, config, { footerOrder: ["Refs", "BREAKING CHANGE"] }),
+  ).to.equal(
+    "🐛 fix!: handle empty input\n\nRefs: #12\n" +
+      "BREAKING CHANGE: empty input throws\nSigned-off-by: Bot <bot@example.com>",
+  );
+});
+
+Deno.test("formatCommit() formats messages that parse back into the same data", () => {
+  const message = formatCommit({
+    type: "initial",
+    scope: "repo",
+    subject: "first commit",
+    body: "Set up the project.",
+    footers: [{ token: "BREAKING CHANGE", value: "everything is new" }],
+  }, config);
+  const commit = parseCommit(message, config);
+
+  expect(commit).to.deep.include({
+    type: "initial",
+    scope: "repo",
+    subject: "first commit",
+    body: "Set up the project.",
+    breaking: true,
+    resolution: "alias",
+  });
+  expect(commit.header).to.equal("🎉 initial(repo)!: first commit");
+});
+
+Deno.test("formatCommit() returns valid commit messages as they were parsed", () => {
+  const messages = [
+    "✨ feat(api): add pagination",
+    "🐛 fix: handle empty input\n\nCloses #12\nRefs: #34, #56",
+    "✨ feat(api)!: add pagination\n\nPages have 20 items.\n\n" +
+    "BREAKING CHANGE: the list endpoints return pages\n" +
+    "  instead of arrays.\nReviewed-by: Tori",
+    "📦 dependencies(deps)!: bump zod\n\nBREAKING-CHANGE: drop Deno 1.30",
+  ];
+
+  for (const message of messages) {
+    const commit = parseCommit(message, config);
+    const data = {
+      type: commit.type!,
+      scope: commit.scope,
+      subject: commit.subject,
+      body: commit.body,
+      breaking: commit.breaking,
+      footers: commit.footers,
+    };
+
+    expect(formatCommit(data, config), message).to.equal(message);
+  }
+});
+
+Deno.test("formatCommit() throws an error when the type isn't a commit type or alias", () => {
+  expect(() => formatCommit({ type: "feta", subject: "typo" }, config)).to
+    .throw(Error, 'Unknown commit type or alias "feta".');
+  expect(() => formatCommit({ type: "✨", subject: "typo" }, config)).to
+    .throw(Error);
+  expect(() =>
+    formatCommit({ type: "feat", subject: "typo" }, config, {
+      header: "{type}: {subject} ({ticket})",
+    })
+  ).to.throw(TemplateRenderError);
+});
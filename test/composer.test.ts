@@ -0,0 +1,183 @@
+import {
+  CommitDraft,
+  composeCommit,
+  renderCommitDraft,
+  writeCommitMessage,
+} from "../source/composer.ts";
+import { Configuration } from "../source/configuration.ts";
+import { expect } from "./dev-dependencies.ts";
+
+const FIXTURES_DIR_PATH = "./test/fixtures/configuration";
+
+const CONFIG = Configuration.fromFiles(
+  `${FIXTURES_DIR_PATH}/defaults.json`,
+  `${FIXTURES_DIR_PATH}/scopes.json`,
+);
+
+const DRAFT: CommitDraft = {
+  emoji: "✨",
+  type: "feat",
+  scope: "api",
+  subject: "add pagination",
+  body: null,
+  breaking: null,
+  references: [],
+};
+
+function compose(answers: string[]) {
+  const questions: string[] = [];
+  let output = "";
+  const draft = composeCommit(CONFIG, {
+    prompt: (message) => {
+      questions.push(message);
+
+      return answers.shift() ?? null;
+    },
+    write: (text) => output += text,
+  });
+
+  return { draft, questions, output };
+}
+
+Deno.test("composeCommit() walks through every step of a commit message", () => {
+  const { draft, questions } = compose([
+    "feat",
+    "1",
+    "add pagination",
+    "Pages have 20 items.",
+    "Use the cursor to get the next page.",
+    "",
+    "the list endpoints return pages",
+    "#12, #34",
+  ]);
+
+  expect(draft).to.deep.equal({
+    emoji: "✨",
+    type: "feat",
+    scope: "api",
+    subject: "add pagination",
+    body: "Pages have 20 items.\nUse the cursor to get the next page.",
+    breaking: "the list endpoints return pages",
+    references: ["#12", "#34"],
+  });
+  expect(questions).to.have.length(8);
+});
+
+Deno.test("composeCommit() finds commit types and aliases by emoji", () => {
+  expect(compose([":tada:", "", "first commit"]).draft).to.deep.include({
+    emoji: "🎉",
+    type: "initial",
+  });
+  expect(compose(["🐛", "", "handle empty input"]).draft?.type).to.equal(
+    "fix",
+  );
+});
+
+Deno.test("composeCommit() lists the matches when a search is ambiguous", () => {
+  const { draft, questions, output } = compose([
+    "feature",
+    "2",
+    "",
+    "extract helpers",
+  ]);
+
+  expect(draft?.type).to.equal("refactor");
+  expect(questions[0]).to.equal(questions[1]);
+  expect(output).to.include(
+    "1. ✨ feat: A new feature.\n" +
+      "2. ♻️ refactor: A code change that neither fixes a bug nor adds a feature.\n",
+  );
+});
+
+Deno.test("composeCommit() lists every choice again when nothing matches", () => {
+  const { draft, output } = compose(["feta", "docs", "", "fix typo"]);
+
+  expect(draft?.type).to.equal("docs");
+  expect(output).to.include('Nothing matches "feta".\n1. ✨ feat:');
+});
+
+Deno.test("composeCommit() searches for answers that are properties of Object.prototype", () => {
+  const { draft, output } = compose([
+    "constructor",
+    "toString",
+    "fix",
+    "",
+    "x",
+  ]);
+
+  expect(draft?.type).to.equal("fix");
+  expect(output).to.include('Nothing matches "constructor".\n');
+  expect(output).to.include('Nothing matches "toString".\n');
+});
+
+Deno.test("composeCommit() accepts scopes that aren't configured", () => {
+  const { draft, output } = compose(["feat", "pkg-core", "add pagination"]);
+
+  expect(draft?.scope).to.equal("pkg-core");
+  expect(output).to.include("2. packages: A package of the monorepo.\n");
+  expect(output).to.include("3. apps: /^app-(web|mobile)$/\n");
+});
+
+Deno.test("composeCommit() shows a preview after each step", () => {
+  const { output } = compose(["feat", "api", "add pagination", "", "", "#12"]);
+
+  expect(output).to.include("\n  │ ✨ feat: …\n\n");
+  expect(output).to.include("\n  │ ✨ feat(api): …\n\n");
+  expect(output).to.include(
+    "\n  │ ✨ feat(api): add pagination\n  │ \n  │ Refs: #12\n\n",
+  );
+});
+
+Deno.test("composeCommit() asks again for an empty subject", () => {
+  const { draft, questions } = compose(["feat", "", "", " add pagination "]);
+
+  expect(draft?.subject).to.equal("add pagination");
+  expect(questions.filter((q) => q === "Subject:")).to.have.length(2);
+});
+
+Deno.test("composeCommit() returns null when the input ends before the subject", () => {
+  expect(compose([]).draft).to.be.null;
+  expect(compose(["feat"]).draft).to.be.null;
+  expect(compose(["feat", "api"]).draft).to.be.null;
+});
+
+Deno.test("renderCommitDraft() renders the header, body and footers", () => {
+  expect(renderCommitDraft(DRAFT, CONFIG)).to.equal(
+    "✨ feat(api): add pagination",
+  );
+  expect(
+    renderCommitDraft({
+      ...DRAFT,
+      scope: null,
+      body: "Pages have 20 items.",
+      breaking: "the list endpoints return pages",
+      references: ["#12"],
+    }, CONFIG),
+  ).to.equal(
+    "✨ feat!: add pagination\n\nPages have 20 items.\n\n" +
+      "BREAKING CHANGE: the list endpoints return pages\nRefs: #12",
+  );
+});
+
+Deno.test("writeCommitMessage() keeps the comment lines of the commit message file", () => {
+  const directory = Deno.makeTempDirSync();
+
+  try {
+    const path = `${directory}/COMMIT_EDITMSG`;
+
+    Deno.writeTextFileSync(path, "\n# Please enter the commit message.\n#\n");
+    writeCommitMessage(path, "✨ feat: add pagination");
+
+    expect(Deno.readTextFileSync(path)).to.equal(
+      "✨ feat: add pagination\n\n# Please enter the commit message.\n#\n",
+    );
+
+    writeCommitMessage(`${directory}/NEW_MSG`, "🐛 fix: handle empty input");
+
+    expect(Deno.readTextFileSync(`${directory}/NEW_MSG`)).to.equal(
+      "🐛 fix: handle empty input\n",
+    );
+  } finally {
+    Deno.removeSync(directory, { recursive: true });
+  }
+});
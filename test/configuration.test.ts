@@ -1,5 +1,10 @@
-import { Configuration } from "../source/configuration.ts";
+import {
+  Configuration,
+  ConfigurationError,
+  defineConfiguration,
+} from "../source/configuration.ts";
 import { expect } from "./dev-dependencies.ts";
+import { createDirectory } from "./helpers.ts";
 
 const FIXTURES_DIR_PATH = "./test/fixtures/configuration";
 
@@ -8,6 +13,11 @@ const FIXTURES_PATHS = {
   customOrder: FIXTURES_DIR_PATH + "/custom-order.json",
   defaults: FIXTURES_DIR_PATH + "/defaults.json",
   notValid: FIXTURES_DIR_PATH + "/not-valid.json",
+  scopes: FIXTURES_DIR_PATH + "/scopes.json",
+  brokenReferences: FIXTURES_DIR_PATH + "/broken-references.json",
+  invalidEmoji: FIXTURES_DIR_PATH + "/invalid-emoji.json",
+  invalidScopePattern: FIXTURES_DIR_PATH + "/invalid-scope-pattern.json",
+  malformed: FIXTURES_DIR_PATH + "/malformed.json",
   missing: "path-to-missing-file.json",
 };
 
@@ -153,3 +163,730 @@ Deno.test("configuration.findAliasByEmojiCode() returns null when it doesn't exi
 
   expect(alias).to.be.null;
 });
+
+function createConfigurationDirectory(files: Record<string, unknown>) {
+  return createDirectory(
+    Object.fromEntries(
+      Object.entries(files).map((
+        [path, value],
+      ) => [path, JSON.stringify(value)]),
+    ),
+  );
+}
+
+Deno.test("Configuration.discover() merges the defaults, global, repository and extra layers in order", () => {
+  const root = createConfigurationDirectory({
+    "home/.gitmojirc.json": { fallback: "docs" },
+    "repo/.gitmojirc.json": RAW_CONFIGURATION.custom,
+    "extra.json": RAW_CONFIGURATION.customOrder,
+  });
+
+  try {
+    const config = Configuration.discover(`${root}/repo`, {
+      defaults: RAW_CONFIGURATION.defaults,
+      globalPath: `${root}/home/.gitmojirc.json`,
+      layers: [`${root}/extra.json`],
+    });
+
+    expect(config.fallback).to.equal("miscellaneous");
+    expect(config.types).to.have.property("miscellaneous");
+    expect(config.order.slice(0, 10)).to.deep.equal(
+      RAW_CONFIGURATION.customOrder.order,
+    );
+    expect(config.sources["types.feat.title"]).to.equal("defaults");
+    expect(config.sources["fallback"]).to.equal(`${root}/repo/.gitmojirc.json`);
+    expect(config.sources["order"]).to.equal(`${root}/extra.json`);
+  } finally {
+    Deno.removeSync(root, { recursive: true });
+  }
+});
+
+Deno.test("Configuration.discover() looks for the repository configuration in the parent directories", () => {
+  const root = createConfigurationDirectory({
+    "repo/gitmoji.config.json": { fallback: "docs" },
+    "repo/packages/api/src/.keep": {},
+  });
+
+  try {
+    const config = Configuration.discover(`${root}/repo/packages/api/src`, {
+      defaults: RAW_CONFIGURATION.defaults,
+      globalPath: null,
+    });
+
+    expect(config.fallback).to.equal("docs");
+    expect(config.sources["fallback"]).to.equal(
+      `${root}/repo/gitmoji.config.json`,
+    );
+  } finally {
+    Deno.removeSync(root, { recursive: true });
+  }
+});
+
+Deno.test("Configuration.discover() reads the configuration from the conventionalGitmoji key of a manifest", () => {
+  const root = createConfigurationDirectory({
+    "repo/package.json": {
+      name: "repo",
+      conventionalGitmoji: { fallback: "test" },
+    },
+  });
+
+  try {
+    const config = Configuration.discover(`${root}/repo`, {
+      defaults: RAW_CONFIGURATION.defaults,
+      globalPath: null,
+    });
+
+    expect(config.fallback).to.equal("test");
+    expect(config.sources["fallback"]).to.equal(`${root}/repo/package.json`);
+  } finally {
+    Deno.removeSync(root, { recursive: true });
+  }
+});
+
+Deno.test("Configuration.discover() only uses the defaults when there's no configuration file", () => {
+  const root = createConfigurationDirectory({});
+
+  try {
+    const config = Configuration.discover(root, {
+      defaults: RAW_CONFIGURATION.defaults,
+      globalPath: `${root}/missing.json`,
+    });
+
+    expect(config).to.have.all.keys(EXPECTED_CONFIGURATION_PROPERTIES);
+    expect(config.fallback).to.equal(RAW_CONFIGURATION.defaults.fallback);
+  } finally {
+    Deno.removeSync(root, { recursive: true });
+  }
+});
+
+Deno.test("Configuration.fromPreset() creates a new configuration instance from each built-in preset", () => {
+  for (const name of ["default", "gitmoji", "conventional"] as const) {
+    const config = Configuration.fromPreset(name);
+
+    expect(config).to.have.all.keys(EXPECTED_CONFIGURATION_PROPERTIES);
+    expect(config.findTypeByName("feat")?.semver).to.equal("minor");
+  }
+});
+
+Deno.test("Configuration.fromPreset() includes the gitmoji catalogue as aliases in the gitmoji preset", () => {
+  const config = Configuration.fromPreset("gitmoji");
+
+  expect(config.findTypeByEmojiCode(":zap:")?.type).to.equal("perf");
+  expect(config.findAliasByEmojiCode(":ambulance:")?.type).to.equal("fix");
+  expect(config.findTypeByAliasName("boom")?.type).to.equal("feat");
+});
+
+Deno.test("configuration.findTypeByEmojiCharacter() ignores variation selectors", () => {
+  const config = Configuration.fromPreset("gitmoji");
+
+  expect(config.findTypeByEmojiCharacter("⚡")?.type).to.equal("perf");
+  expect(config.findTypeByEmojiCharacter("⚡️")?.type).to.equal("perf");
+  expect(config.findTypeByEmojiCharacter("🦦")).to.be.null;
+  expect(config.findTypeByEmojiCharacter(":zap:")).to.be.null;
+});
+
+Deno.test("configuration.findAliasByEmojiCharacter() ignores variation selectors", () => {
+  const config = Configuration.fromPreset("gitmoji");
+
+  expect(config.findAliasByEmojiCharacter("🚑")?.name).to.equal("ambulance");
+  expect(config.findAliasByEmojiCharacter("🚑️")?.name).to.equal("ambulance");
+  expect(config.findAliasByEmojiCharacter("🦦")).to.be.null;
+  expect(config.findAliasByEmojiCharacter(":ambulance:")).to.be.null;
+});
+
+Deno.test("configuration.findTypeByEmojiCode() matches alternative shortcodes but not characters", () => {
+  const config = Configuration.fromPreset("gitmoji");
+
+  expect(config.findTypeByEmojiCode(":high_voltage:")?.type).to.equal("perf");
+  expect(config.findTypeByEmojiCode(":pencil:")?.type).to.equal("docs");
+  expect(config.findTypeByEmojiCode("⚡")).to.be.null;
+  expect(config.findAliasByEmojiCode("🚑")).to.be.null;
+});
+
+Deno.test("Configuration.fromPreset() merges the given files over the preset", () => {
+  const config = Configuration.fromPreset(
+    "conventional",
+    FIXTURES_PATHS.custom,
+    FIXTURES_PATHS.customOrder,
+  );
+
+  expect(config.fallback).to.equal("miscellaneous");
+  expect(config.types).to.have.property("revert");
+  expect(config.order.slice(0, 10)).to.deep.equal(
+    RAW_CONFIGURATION.customOrder.order,
+  );
+  expect(config.sources["types.revert.title"]).to.equal("preset:conventional");
+});
+
+Deno.test("Configuration.fromPreset() throws an error when the preset doesn't exist", () => {
+  // @ts-expect-error: `uwu` is not a preset.
+  const config = Configuration.fromPreset.bind(null, "uwu");
+
+  expect(config).to.throw(Error);
+});
+
+Deno.test("Configuration.discover() uses the default preset when no defaults are given", () => {
+  const root = createConfigurationDirectory({});
+
+  try {
+    const config = Configuration.discover(root, { globalPath: null });
+
+    expect(config.findAliasByName("release")?.type).to.equal("build");
+    expect(config.sources["fallback"]).to.equal("preset:default");
+  } finally {
+    Deno.removeSync(root, { recursive: true });
+  }
+});
+
+Deno.test("Configuration.fromFile() merges the presets and files the configuration extends", () => {
+  const root = createConfigurationDirectory({
+    "base.json": {
+      extends: "default",
+      fallback: "docs",
+      scopes: { feat: ["api"] },
+    },
+    "repo/.gitmojirc.json": {
+      extends: ["../base.json"],
+      types: { ci: null },
+      aliases: { release: null },
+      scopes: { build: null },
+    },
+  });
+
+  try {
+    const config = Configuration.fromFile(`${root}/repo/.gitmojirc.json`);
+
+    expect(config.fallback).to.equal("docs");
+    expect(config.types).not.to.have.property("ci");
+    expect(config.order).not.to.include("ci");
+    expect(config.findAliasByName("release")).to.be.null;
+    expect(config.getScopes("build")).to.be.empty;
+    expect(config.findScope("feat", "api")?.name).to.equal("api");
+    expect(config.sources["fallback"]).to.equal(`${root}/base.json`);
+    expect(config.sources["types.feat.title"]).to.equal("preset:default");
+    expect(config.sources).not.to.have.property("types.ci.title");
+  } finally {
+    Deno.removeSync(root, { recursive: true });
+  }
+});
+
+Deno.test("Configuration.fromFile() throws a ConfigurationError when an extends entry isn't a string", () => {
+  const root = createConfigurationDirectory({
+    "a.json": { extends: [1] },
+    "b.json": { extends: { path: "./a.json" } },
+  });
+
+  try {
+    expect(() => Configuration.fromFile(`${root}/b.json`))
+      .to.throw(ConfigurationError)
+      .with.property("problems")
+      .that.has.nested.property("[0].path")
+      .that.deep.equals(["extends"]);
+
+    Configuration.fromFile(`${root}/a.json`);
+    expect.fail("Expected a ConfigurationError.");
+  } catch (e) {
+    const [problem] = (e as ConfigurationError).problems;
+
+    expect(e).to.be.instanceOf(ConfigurationError);
+    expect(problem.path).to.deep.equal(["extends", 0]);
+    expect(problem.source).to.equal(`${root}/a.json`);
+    expect(problem.location).to.include({ line: 1, column: 13 });
+  } finally {
+    Deno.removeSync(root, { recursive: true });
+  }
+});
+
+Deno.test("Configuration.fromFile() throws a ConfigurationError when a file extends itself", () => {
+  const root = createConfigurationDirectory({
+    "a.json": { extends: "./b.json" },
+    "b.json": { extends: ["default", "./a.json"] },
+  });
+
+  try {
+    Configuration.fromFile(`${root}/a.json`);
+    expect.fail("Expected a ConfigurationError.");
+  } catch (e) {
+    const [problem] = (e as ConfigurationError).problems;
+
+    expect(e).to.be.instanceOf(ConfigurationError);
+    expect(problem.path).to.deep.equal(["extends", 1]);
+    expect(problem.source).to.equal(`${root}/b.json`);
+    expect(problem.message).to.equal(
+      `The configuration extends itself: ${root}/a.json -> ${root}/b.json ` +
+        `-> ${root}/a.json.`,
+    );
+  } finally {
+    Deno.removeSync(root, { recursive: true });
+  }
+});
+
+Deno.test("Configuration.discover() applies the environment variable overrides last", () => {
+  const root = createConfigurationDirectory({
+    "repo/.gitmojirc.json": { fallback: "test", order: ["docs"] },
+  });
+
+  try {
+    const config = Configuration.discover(`${root}/repo`, {
+      globalPath: null,
+      env: {
+        CONVENTIONAL_GITMOJI_FALLBACK: "ci",
+        CONVENTIONAL_GITMOJI_ORDER: "fix, feat",
+      },
+    });
+
+    expect(config.fallback).to.equal("ci");
+    expect(config.order.slice(0, 3)).to.deep.equal(["fix", "feat", "build"]);
+    expect(config.sources["fallback"]).to.equal(
+      "env:CONVENTIONAL_GITMOJI_FALLBACK",
+    );
+    expect(() =>
+      Configuration.discover(`${root}/repo`, {
+        globalPath: null,
+        env: { CONVENTIONAL_GITMOJI_FALLBACK: "feta" },
+      })
+    ).to.throw(ConfigurationError);
+  } finally {
+    Deno.removeSync(root, { recursive: true });
+  }
+});
+
+Deno.test("Configuration.constructor() keeps the scopes of commit aliases and normalizes them", () => {
+  const config = Configuration.fromFiles(
+    FIXTURES_PATHS.defaults,
+    FIXTURES_PATHS.scopes,
+  );
+
+  expect(config.scopes.initial).to.deep.equal([
+    { name: "repo", description: null, pattern: null },
+  ]);
+  expect(config.scopes.breaking).to.deep.equal([]);
+  expect(config.scopes.feat[1]).to.deep.equal({
+    name: "packages",
+    description: "A package of the monorepo.",
+    pattern: "pkg-*",
+  });
+});
+
+Deno.test("configuration.findScope() returns the scope that matches by name or pattern", () => {
+  const config = Configuration.fromFiles(
+    FIXTURES_PATHS.defaults,
+    FIXTURES_PATHS.scopes,
+  );
+
+  expect(config.findScope("feat", "api")?.name).to.equal("api");
+  expect(config.findScope("feat", "pkg-core")?.name).to.equal("packages");
+  expect(config.findScope("feat", "app-web")?.name).to.equal("apps");
+  expect(config.findScope("feat", "app-desktop")).to.be.null;
+  expect(config.findScope("feat", "pkg")).to.be.null;
+});
+
+Deno.test("configuration.findScope() uses the scopes of the commit type when the alias has none", () => {
+  const config = Configuration.fromFile(FIXTURES_PATHS.defaults);
+
+  expect(config.findScope("dependencies", "deps")?.name).to.equal("deps");
+  expect(config.findScope("dependencies", "api")).to.be.null;
+});
+
+Deno.test("Configuration.constructor() reports every broken cross reference at once with its path", () => {
+  try {
+    Configuration.fromFiles(
+      FIXTURES_PATHS.defaults,
+      FIXTURES_PATHS.brokenReferences,
+    );
+    expect.fail("The configuration should not be valid");
+  } catch (e) {
+    const { problems } = e as ConfigurationError;
+
+    expect(problems.map((problem) => problem.path.join("."))).to.have.members([
+      "fallback",
+      "types.feat.emoji.code",
+      "types.feat.emoji.character",
+      "aliases.feat",
+      "aliases.hotfix.type",
+      "order.1",
+    ]);
+  }
+});
+
+Deno.test("Configuration.fromFiles() throws a ConfigurationError with the file, line and column of the invalid value", () => {
+  try {
+    Configuration.fromFiles(
+      FIXTURES_PATHS.defaults,
+      FIXTURES_PATHS.invalidEmoji,
+    );
+    expect.fail("The configuration should not be valid");
+  } catch (e) {
+    expect(e).to.be.instanceOf(ConfigurationError);
+
+    const [problem] = (e as ConfigurationError).problems;
+
+    expect(problem.path).to.deep.equal(["types", "feat", "emoji", "code"]);
+    expect(problem.source).to.equal(FIXTURES_PATHS.invalidEmoji);
+    expect(problem.location).to.include({ line: 6, column: 17 });
+    expect(problem.excerpt).to.equal('        "code": "sparkles",');
+    expect(problem.expected).to.equal("A valid emoji code. Example: `:fire:`.");
+  }
+});
+
+Deno.test("Configuration.fromFiles() throws a ConfigurationError when a scope pattern isn't a valid regular expression", () => {
+  try {
+    Configuration.fromFiles(
+      FIXTURES_PATHS.defaults,
+      FIXTURES_PATHS.invalidScopePattern,
+    );
+    expect.fail("The configuration should not be valid");
+  } catch (e) {
+    expect(e).to.be.instanceOf(ConfigurationError);
+
+    const [problem] = (e as ConfigurationError).problems;
+
+    expect(problem.path).to.deep.equal(["scopes", "feat", 1, "pattern"]);
+    expect(problem.source).to.equal(FIXTURES_PATHS.invalidScopePattern);
+    expect(problem.location).to.include({ line: 7, column: 20 });
+    expect(problem.message).to.contain(
+      'The scope pattern "/^app-(web|mobile$/" isn\'t valid',
+    );
+  }
+});
+
+Deno.test("Configuration.fromFile() throws a ConfigurationError with the line and column of a JSON syntax error", () => {
+  try {
+    Configuration.fromFile(FIXTURES_PATHS.malformed);
+    expect.fail("The configuration should not be valid");
+  } catch (e) {
+    expect(e).to.be.instanceOf(ConfigurationError);
+
+    const [problem] = (e as ConfigurationError).problems;
+
+    expect(problem.path).to.deep.equal([]);
+    expect(problem.source).to.equal(FIXTURES_PATHS.malformed);
+    expect(problem.location).to.include({ line: 3, column: 3 });
+  }
+});
+
+Deno.test("ConfigurationError.format() reports each problem with its location, an excerpt and what was expected", () => {
+  try {
+    Configuration.fromFiles(
+      FIXTURES_PATHS.defaults,
+      FIXTURES_PATHS.invalidEmoji,
+    );
+    expect.fail("The configuration should not be valid");
+  } catch (e) {
+    const report = (e as ConfigurationError).format();
+
+    expect(report).to.equal(
+      [
+        "The configuration isn't valid, 1 problem found.",
+        "",
+        `${FIXTURES_PATHS.invalidEmoji}:6:17 at types.feat.emoji.code`,
+        "  Invalid",
+        "  Expected: A valid emoji code. Example: `:fire:`.",
+        "",
+        '  6 |         "code": "sparkles",',
+        "    |                 ^",
+        "",
+      ].join("\n"),
+    );
+  }
+});
+
+Deno.test("configuration.resolve() resolves commit type and alias names", () => {
+  const config = Configuration.fromFile(FIXTURES_PATHS.defaults);
+  const type = config.resolve("feat");
+  const alias = config.resolve("initial");
+
+  expect(type).to.deep.include({
+    kind: "type",
+    token: "feat",
+    alias: null,
+    semver: "minor",
+    changelog: true,
+  });
+  expect(type?.type.type).to.equal("feat");
+  expect(alias).to.deep.include({
+    kind: "alias",
+    token: "initial",
+    semver: null,
+    changelog: false,
+  });
+  expect(alias?.type.type).to.equal("feat");
+  expect(alias?.alias?.name).to.equal("initial");
+});
+
+Deno.test("configuration.resolve() resolves emoji codes and characters", () => {
+  const config = Configuration.fromFile(FIXTURES_PATHS.defaults);
+
+  expect(config.resolve(":sparkles:")?.kind).to.equal("type-emoji");
+  expect(config.resolve("✨️")?.type.type).to.equal("feat");
+  expect(config.resolve("📦")).to.deep.include({
+    kind: "alias-emoji",
+    semver: "patch",
+  });
+  expect(config.resolve(":package:")?.type.type).to.equal("build");
+});
+
+Deno.test("configuration.resolve() returns null when the token doesn't match anything", () => {
+  const config = Configuration.fromFile(FIXTURES_PATHS.defaults);
+
+  expect(config.resolve("unknown")).to.be.null;
+  expect(config.resolve(":uwu:")).to.be.null;
+  expect(config.resolve("🦦")).to.be.null;
+});
+
+Deno.test("configuration.resolve() doesn't resolve the properties of Object.prototype", () => {
+  const config = Configuration.fromFile(FIXTURES_PATHS.defaults);
+
+  for (const token of ["constructor", "toString", "__proto__", "valueOf"]) {
+    expect(config.resolve(token), token).to.be.null;
+    expect(config.getScopes(token), token).to.be.empty;
+  }
+});
+
+const I18N_TYPE = {
+  type: "i18n",
+  title: "Internationalization",
+  description: "Internationalization and localization.",
+  semver: "patch" as const,
+  changelog: true,
+  emoji: {
+    character: "🌐",
+    code: ":globe_with_meridians:",
+    name: "globe_with_meridians",
+  },
+};
+
+Deno.test("configuration.toJSON() leaves out the commit type index and the default scopes", () => {
+  const config = Configuration.fromFiles(
+    FIXTURES_PATHS.defaults,
+    FIXTURES_PATHS.scopes,
+  );
+  const json = config.toJSON();
+
+  expect(json.types.feat).not.to.have.property("index");
+  expect(json.scopes).to.have.all.keys(["build", "chore", "feat", "initial"]);
+  expect(json.scopes.initial).to.deep.equal(["repo"]);
+  expect(json.scopes.feat).to.deep.include({
+    name: "apps",
+    pattern: "/^app-(web|mobile)$/",
+  });
+});
+
+Deno.test("configuration.toJSON() round-trips into an equal configuration", () => {
+  const config = Configuration.fromFiles(
+    FIXTURES_PATHS.defaults,
+    FIXTURES_PATHS.scopes,
+  );
+  const copy = Configuration.fromLayers([
+    { source: "json", value: config.toJSON() },
+  ]);
+
+  expect(copy.toJSON()).to.deep.equal(config.toJSON());
+  expect(copy.types).to.deep.equal(config.types);
+  expect(copy.scopes).to.deep.equal(config.scopes);
+});
+
+Deno.test("configuration.toFile() writes a file that loads into an equal configuration", () => {
+  const config = Configuration.fromPreset("gitmoji");
+  const path = Deno.makeTempFileSync({ suffix: ".json" });
+
+  try {
+    config.toFile(path);
+
+    expect(Configuration.fromFile(path).toJSON()).to.deep.equal(
+      config.toJSON(),
+    );
+  } finally {
+    Deno.removeSync(path);
+  }
+});
+
+Deno.test("configuration.toFile() writes the changes made through the API and their sources are tracked", () => {
+  const config = Configuration.fromFile(FIXTURES_PATHS.defaults)
+    .addType(I18N_TYPE)
+    .addScope("feat", "api")
+    .reorder(["i18n", "feat"]);
+  const path = Deno.makeTempFileSync({ suffix: ".json" });
+
+  expect(config.sources["types.i18n.title"]).to.equal("api:addType");
+  expect(config.sources["scopes.feat"]).to.equal("api:addScope");
+  expect(config.sources["order"]).to.equal("api:reorder");
+  expect(config.sources["types.feat.title"]).to.equal(FIXTURES_PATHS.defaults);
+
+  try {
+    config.toFile(path);
+
+    const copy = Configuration.fromFile(path);
+    const json = JSON.parse(Deno.readTextFileSync(path));
+
+    expect(json.types.i18n).to.deep.equal(I18N_TYPE);
+    expect(json.scopes.feat).to.deep.equal(["api"]);
+    expect(json.order.slice(0, 2)).to.deep.equal(["i18n", "feat"]);
+    expect(copy.toJSON()).to.deep.equal(config.toJSON());
+    expect(copy.sources["types.i18n.title"]).to.equal(path);
+  } finally {
+    Deno.removeSync(path);
+  }
+});
+
+Deno.test("configuration.addAlias() reports the problems of the change with its source", () => {
+  const config = Configuration.fromFile(FIXTURES_PATHS.defaults);
+
+  try {
+    config.addAlias({
+      name: "translation",
+      type: "i18n",
+      description: "Add or update translations.",
+      semver: "patch",
+      changelog: true,
+      emoji: { character: "🈯", code: ":u6307:", name: "u6307" },
+    });
+    expect.fail("The configuration should not be valid");
+  } catch (e) {
+    const [problem] = (e as ConfigurationError).problems;
+
+    expect(problem.path).to.deep.equal(["aliases", "translation", "type"]);
+    expect(problem.source).to.equal("api:addAlias");
+  }
+
+  expect(config.sources).not.to.have.property("aliases.translation.type");
+});
+
+Deno.test("configuration.addType() adds a commit type and recomputes the indexes", () => {
+  const config = Configuration.fromFile(FIXTURES_PATHS.defaults)
+    .addType(I18N_TYPE)
+    .reorder(["i18n", "feat"]);
+
+  expect(config.order.slice(0, 2)).to.deep.equal(["i18n", "feat"]);
+  expect(config.findTypeByName("i18n")?.index).to.equal(0);
+  expect(config.findTypeByName("feat")?.index).to.equal(1);
+  expect(config.findTypeByEmojiCharacter("🌐")?.type).to.equal("i18n");
+});
+
+Deno.test("configuration.addType() throws an error when the commit type already exists", () => {
+  const config = Configuration.fromFile(FIXTURES_PATHS.defaults);
+
+  expect(() => config.addType({ ...I18N_TYPE, type: "feat" })).to.throw(Error);
+});
+
+Deno.test("configuration.addAlias() validates the configuration and leaves it unchanged when it isn't valid", () => {
+  const config = Configuration.fromFile(FIXTURES_PATHS.defaults);
+  const alias = {
+    name: "translation",
+    type: "i18n",
+    description: "Add or update translations.",
+    semver: "patch" as const,
+    changelog: true,
+    emoji: { character: "🈯", code: ":u6307:", name: "u6307" },
+  };
+
+  expect(() => config.addAlias(alias)).to.throw(ConfigurationError);
+  expect(config.findAliasByName("translation")).to.be.null;
+
+  config.addType(I18N_TYPE).addAlias(alias);
+
+  expect(config.resolve(":u6307:")?.type.type).to.equal("i18n");
+});
+
+Deno.test("configuration.addScope() adds a scope to a commit type or alias", () => {
+  const config = Configuration.fromFile(FIXTURES_PATHS.defaults)
+    .addScope("feat", "api")
+    .addScope("feat", { name: "packages", pattern: "pkg-*" });
+
+  expect(config.findScope("feat", "pkg-core")?.name).to.equal("packages");
+  expect(config.toJSON().scopes.feat).to.deep.equal([
+    "api",
+    { name: "packages", pattern: "pkg-*" },
+  ]);
+  expect(() => config.addScope("unknown", "api")).to.throw(Error);
+});
+
+Deno.test("configuration.reorder() appends the commit types left out in their current order", () => {
+  const config = Configuration.fromPreset("default");
+  const rest = config.order.filter((type) => type !== "docs");
+
+  config.reorder(["docs"]);
+
+  expect(config.order).to.deep.equal(["docs", ...rest]);
+  expect(config.findTypeByName("docs")?.index).to.equal(0);
+  expect(config.findTypeByName(rest[0])?.index).to.equal(1);
+});
+
+Deno.test("configuration.reorder() throws a ConfigurationError when an entry isn't a commit type", () => {
+  const config = Configuration.fromFile(FIXTURES_PATHS.defaults);
+
+  expect(() => config.reorder(["feat", "fetaure"])).to.throw(
+    ConfigurationError,
+  );
+});
+
+const DEFINITION = {
+  types: {
+    feat: {
+      type: "feat",
+      title: "Features",
+      description: "A new feature.",
+      semver: "minor",
+      changelog: true,
+      emoji: { character: "✨", code: ":sparkles:", name: "sparkles" },
+    },
+    fix: {
+      type: "fix",
+      title: "Bug Fixes",
+      description: "A bug fix.",
+      semver: "patch",
+      changelog: true,
+      emoji: { character: "🐛", code: ":bug:", name: "bug" },
+    },
+  },
+  aliases: {
+    hotfix: {
+      type: "fix",
+      name: "hotfix",
+      description: "Critical hotfix.",
+      emoji: { character: "🚑️", code: ":ambulance:", name: "ambulance" },
+      semver: "patch",
+      changelog: true,
+    },
+  },
+  fallback: "fix",
+  scopes: {
+    feat: ["api", { name: "packages", pattern: "pkg-*" }],
+    fix: ["api", "ui"],
+  },
+} as const;
+
+Deno.test("defineConfiguration() creates a configuration from a definition", () => {
+  const config = defineConfiguration(DEFINITION);
+
+  expect(config).to.be.instanceOf(Configuration);
+  expect(config.findTypeByName("feat")?.title).to.equal("Features");
+  expect(config.findTypeByAliasName("hotfix")?.type).to.equal("fix");
+  expect(config.findScope("feat", "pkg-core")?.name).to.equal("packages");
+  expect(config.findScope("hotfix", "ui")?.name).to.equal("ui");
+  expect(config.order).to.deep.equal(["feat", "fix"]);
+});
+
+Deno.test("defineConfiguration() throws a ConfigurationError when the definition isn't valid", () => {
+  expect(() => defineConfiguration({ ...DEFINITION, fallback: "feta" })).to
+    .throw(ConfigurationError);
+});
+
+Deno.test("defineConfiguration() types the names of commit types, aliases and scopes", () => {
+  const config = defineConfiguration(DEFINITION);
+
+  // @ts-expect-error: `feta` is not a commit type.
+  expect(config.findTypeByName("feta")).to.be.null;
+  // @ts-expect-error: `feat` is not a commit alias.
+  expect(config.findAliasByName("feat")).to.be.null;
+  // @ts-expect-error: `docs` is not a scope of `fix`.
+  expect(config.findScope("fix", "docs")).to.be.null;
+  // @ts-expect-error: `docs` is not a scope of `hotfix`.
+  expect(config.findScope("hotfix", "docs")).to.be.null;
+  // @ts-expect-error: `feta` is not a commit type.
+  expect(() => config.reorder(["feta"])).to.throw(ConfigurationError);
+
+  const scope: Configuration.ScopeName<typeof DEFINITION, "fix"> = "api";
+
+  expect(config.findScope("fix", scope)?.name).to.equal("api");
+});
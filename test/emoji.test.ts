@@ -0,0 +1,105 @@
+import { Configuration } from "../source/configuration.ts";
+import {
+  demojify,
+  emojify,
+  EmojiObjectSchema,
+  isSameEmoji,
+  normalizeEmoji,
+} from "../source/emoji.ts";
+import { expect } from "./dev-dependencies.ts";
+
+const CUSTOM_EMOJI = { character: "🦦", code: ":release:", name: "release" };
+
+Deno.test("emojify() replaces shortcodes with their emoji characters", () => {
+  expect(emojify(":sparkles: feat: add :zap: and :bug:")).to.equal(
+    "✨ feat: add ⚡️ and 🐛",
+  );
+});
+
+Deno.test("emojify() leaves unknown shortcodes and other colons as they are", () => {
+  expect(emojify(":not_an_emoji: at 12:30:45")).to.equal(
+    ":not_an_emoji: at 12:30:45",
+  );
+});
+
+Deno.test("emojify() applies skin tones to emojis and ZWJ sequences", () => {
+  expect(emojify(":+1::skin-tone-3:")).to.equal("👍🏼");
+  expect(emojify(":point_up::skin-tone-2:")).to.equal("☝🏻");
+  expect(emojify(":woman_technologist::skin-tone-4:")).to.equal("👩🏽‍💻");
+});
+
+Deno.test("emojify() looks up the given emojis before the bundled shortcodes", () => {
+  const emojis = [{ character: "🚀", code: ":release:", name: "release" }];
+
+  expect(emojify(":release:", emojis)).to.equal("🚀");
+  expect(emojify(":rocket:", emojis)).to.equal("🚀");
+});
+
+Deno.test("demojify() replaces emoji characters with their shortcodes", () => {
+  expect(demojify("✨ feat: add ⚡️ and 🐛")).to.equal(
+    ":sparkles: feat: add :zap: and :bug:",
+  );
+});
+
+Deno.test("demojify() ignores variation selectors", () => {
+  expect(demojify("⚡ and ⚡️")).to.equal(":zap: and :zap:");
+  expect(demojify("🔥️")).to.equal(":fire:");
+});
+
+Deno.test("demojify() converts ZWJ sequences and skin tones", () => {
+  expect(demojify("🏳️‍🌈 👩‍💻")).to.equal(":rainbow_flag: :woman_technologist:");
+  expect(demojify("👍🏼 👩🏽‍💻")).to.equal(
+    ":+1::skin-tone-3: :woman_technologist::skin-tone-4:",
+  );
+});
+
+Deno.test("demojify() leaves unknown emoji characters as they are", () => {
+  expect(demojify("🦦 otter")).to.equal("🦦 otter");
+  expect(demojify("🦦 otter", [CUSTOM_EMOJI])).to.equal(":release: otter");
+});
+
+Deno.test("emojify() and demojify() are the inverse of each other", () => {
+  const text = ":sparkles: :+1::skin-tone-5: :man_technologist::skin-tone-2:";
+
+  expect(demojify(emojify(text))).to.equal(text);
+});
+
+Deno.test("configuration.emojify() and configuration.demojify() use the configured emojis", () => {
+  const config = Configuration.fromPreset("default");
+
+  expect(config.emojify(":toolbox: build: bump deps")).to.equal(
+    "🧰 build: bump deps",
+  );
+  expect(config.demojify("🛠️ build: bump deps")).to.equal(
+    ":hammer_and_wrench: build: bump deps",
+  );
+});
+
+Deno.test("normalizeEmoji() removes variation selectors and converts codes into characters", () => {
+  expect(normalizeEmoji("⚡️")).to.equal("⚡");
+  expect(normalizeEmoji(":zap:")).to.equal("⚡");
+  expect(normalizeEmoji(":high_voltage:")).to.equal("⚡");
+  expect(normalizeEmoji(":release:")).to.equal(":release:");
+});
+
+Deno.test("isSameEmoji() compares emojis regardless of how they are written", () => {
+  expect(isSameEmoji("✨", "✨\uFE0F")).to.be.true;
+  expect(isSameEmoji(":zap:", ":high_voltage:")).to.be.true;
+  expect(isSameEmoji(":memo:", "📝")).to.be.true;
+  expect(isSameEmoji(":release:", "🦦", [CUSTOM_EMOJI])).to.be.true;
+  expect(isSameEmoji(":zap:", ":fire:")).to.be.false;
+});
+
+Deno.test("EmojiObjectSchema only accepts a single emoji character", () => {
+  const emoji = { code: ":sparkles:", name: "sparkles" };
+
+  for (const character of ["✨", "⚡️", "👩🏽‍💻", "🏳️‍🌈"]) {
+    expect(EmojiObjectSchema.safeParse({ ...emoji, character }).success).to.be
+      .true;
+  }
+
+  for (const character of ["abc✨", "✨abc", "✨✨", ""]) {
+    expect(EmojiObjectSchema.safeParse({ ...emoji, character }).success).to.be
+      .false;
+  }
+});
@@ -0,0 +1,110 @@
+import { Configuration } from "../source/configuration.ts";
+import { getHooksPath, getLatestTag, readCommits } from "../source/git.ts";
+import { expect } from "./dev-dependencies.ts";
+import { commit, createRepository, git } from "./helpers.ts";
+
+const CONFIG = Configuration.fromPreset("default");
+
+function createHistory() {
+  const cwd = createRepository();
+
+  commit(cwd, "🎉 initial: first commit", { "README.md": "# Repository" });
+  git(cwd, "tag", "v1.0.0");
+  commit(cwd, "✨ feat(api): add pagination\n\nCloses #12", {
+    "source/api.ts": "export {};",
+    "test/api.test.ts": "export {};",
+  });
+  commit(cwd, ":bug: handle empty input", { "source/api.ts": "" });
+
+  return cwd;
+}
+
+Deno.test("readCommits() reads the commits since the latest tag by default", () => {
+  const cwd = createHistory();
+
+  try {
+    const commits = readCommits(CONFIG, { cwd });
+
+    expect(commits.map(({ commit }) => commit.header)).to.deep.equal([
+      ":bug: handle empty input",
+      "✨ feat(api): add pagination",
+    ]);
+    expect(commits[0].commit.commitType.type).to.equal("fix");
+    expect(commits[0].commit.resolution).to.equal("type-emoji");
+    expect(commits[1]).to.deep.include({
+      author: { name: "Tori", email: "tori@example.com" },
+      date: new Date("2023-05-01T12:00:00Z"),
+      message: "✨ feat(api): add pagination\n\nCloses #12",
+      files: ["source/api.ts", "test/api.test.ts"],
+    });
+    expect(commits[1].hash).to.match(/^[0-9a-f]{40}$/);
+  } finally {
+    Deno.removeSync(cwd, { recursive: true });
+  }
+});
+
+Deno.test("readCommits() reads the commits of the given range", () => {
+  const cwd = createHistory();
+
+  try {
+    const commits = readCommits(CONFIG, { cwd, range: "HEAD~1" });
+
+    expect(commits).to.have.length(2);
+    expect(commits[1].commit.alias?.name).to.equal("initial");
+    expect(commits[1].files).to.deep.equal(["README.md"]);
+  } finally {
+    Deno.removeSync(cwd, { recursive: true });
+  }
+});
+
+Deno.test("readCommits() reads every commit when there are no tags", () => {
+  const cwd = createHistory();
+
+  try {
+    git(cwd, "tag", "--delete", "v1.0.0");
+
+    expect(getLatestTag(cwd)).to.be.null;
+    expect(readCommits(CONFIG, { cwd })).to.have.length(3);
+  } finally {
+    Deno.removeSync(cwd, { recursive: true });
+  }
+});
+
+Deno.test("readCommits() throws an error when the range isn't valid", () => {
+  const cwd = createHistory();
+
+  try {
+    expect(() => readCommits(CONFIG, { cwd, range: "v9.9.9..HEAD" })).to.throw(
+      Error,
+      "The git command failed",
+    );
+  } finally {
+    Deno.removeSync(cwd, { recursive: true });
+  }
+});
+
+Deno.test("getLatestTag() returns the latest tag reachable from HEAD", () => {
+  const cwd = createHistory();
+
+  try {
+    expect(getLatestTag(cwd)).to.equal("v1.0.0");
+  } finally {
+    Deno.removeSync(cwd, { recursive: true });
+  }
+});
+
+Deno.test("getHooksPath() expands the home directory in core.hooksPath", () => {
+  const cwd = createRepository();
+
+  try {
+    git(cwd, "config", "core.hooksPath", "~/hooks");
+
+    expect(getHooksPath(cwd)).to.equal(`${Deno.env.get("HOME")}/hooks`);
+
+    git(cwd, "config", "core.hooksPath", ".githooks");
+
+    expect(getHooksPath(cwd)).to.equal(`${cwd}/.githooks`);
+  } finally {
+    Deno.removeSync(cwd, { recursive: true });
+  }
+});
@@ -0,0 +1,117 @@
+/**
+ * Environment that isolates git from the configuration of the machine, like a
+ * global `core.hooksPath`, and gives commits a fixed identity and date. The
+ * editor does nothing, so the messages are the ones git prepares, unless a
+ * command sets another `core.editor`. It's set on the process, so the git
+ * commands run by the modules under test use it too.
+ */
+const GIT_ENV = {
+  GIT_CONFIG_GLOBAL: "/dev/null",
+  GIT_CONFIG_NOSYSTEM: "1",
+  GIT_CONFIG_COUNT: "1",
+  GIT_CONFIG_KEY_0: "core.editor",
+  GIT_CONFIG_VALUE_0: "true",
+  GIT_AUTHOR_NAME: "Tori",
+  GIT_AUTHOR_EMAIL: "tori@example.com",
+  GIT_AUTHOR_DATE: "2023-05-01T12:00:00Z",
+  GIT_COMMITTER_NAME: "Tori",
+  GIT_COMMITTER_EMAIL: "tori@example.com",
+};
+
+for (const [name, value] of Object.entries(GIT_ENV)) {
+  Deno.env.set(name, value);
+}
+
+// It would take precedence over `core.editor`.
+Deno.env.delete("GIT_EDITOR");
+
+/**
+ * Runs a git command.
+ *
+ * @param cwd - Directory to run the command in.
+ * @param args - Arguments of the command.
+ * @returns The standard output of the command.
+ * @throws {Error} If the command fails, with its standard error as message.
+ */
+export function git(cwd: string, ...args: string[]) {
+  const { success, stdout, stderr } = new Deno.Command("git", {
+    args,
+    cwd,
+    stdin: "null",
+  }).outputSync();
+
+  if (!success) throw new Error(new TextDecoder().decode(stderr));
+
+  return new TextDecoder().decode(stdout);
+}
+
+/**
+ * Writes text files, creating their parent directories.
+ *
+ * @param root - Directory the paths are relative to.
+ * @param files - Contents of each file, keyed by path.
+ */
+export function writeFiles(root: string, files: Record<string, string>) {
+  for (const [path, contents] of Object.entries(files)) {
+    const fullPath = `${root}/${path}`;
+
+    Deno.mkdirSync(fullPath.slice(0, fullPath.lastIndexOf("/")), {
+      recursive: true,
+    });
+    Deno.writeTextFileSync(fullPath, contents);
+  }
+}
+
+/**
+ * Creates a temporary directory with the given files.
+ *
+ * @param files - Contents of each file, keyed by path.
+ * @returns The path of the directory.
+ */
+export function createDirectory(files: Record<string, string> = {}) {
+  const root = Deno.makeTempDirSync();
+
+  writeFiles(root, files);
+
+  return root;
+}
+
+/**
+ * Creates an empty git repository in a temporary directory.
+ *
+ * @param branch - Name of the initial branch.
+ * @returns The path of the repository.
+ */
+export function createRepository(branch = "main") {
+  const cwd = createDirectory();
+
+  git(cwd, "init", "--quiet", `--initial-branch=${branch}`);
+
+  return cwd;
+}
+
+/**
+ * Writes files, stages every change and commits it, without running hooks.
+ *
+ * @param cwd - Directory of the repository.
+ * @param message - The commit message.
+ * @param files - Contents of each file to write, keyed by path.
+ */
+export function commit(
+  cwd: string,
+  message: string,
+  files: Record<string, string> = {},
+) {
+  writeFiles(cwd, files);
+  git(cwd, "add", "--all");
+  git(
+    cwd,
+    "commit",
+    "--quiet",
+    "--allow-empty",
+    "--no-verify",
+    "--no-gpg-sign",
+    "-m",
+    message,
+  );
+}
@@ -0,0 +1,247 @@
+import { Configuration } from "../source/configuration.ts";
+import {
+  inferCommitType,
+  installHooks,
+  prefillCommitMessage,
+} from "../source/hooks.ts";
+import { expect } from "./dev-dependencies.ts";
+import { createRepository, git, writeFiles } from "./helpers.ts";
+
+const CONFIG = Configuration.fromPreset("default");
+
+const COMMIT_MESSAGE = "\n# Please enter the commit message.\n";
+
+const HOOK_COMMAND =
+  `'${Deno.execPath()}' run --allow-read --allow-write --allow-env ` +
+  `--allow-run=git '${import.meta.resolve("../source/cli.ts")}'`;
+
+function createStagedRepository(branch: string, files: string[] = []) {
+  const cwd = createRepository(branch);
+
+  writeFiles(cwd, Object.fromEntries(files.map((path) => [path, ""])));
+  git(cwd, "add", "--all");
+  Deno.writeTextFileSync(`${cwd}/.git/COMMIT_EDITMSG`, COMMIT_MESSAGE);
+
+  return cwd;
+}
+
+Deno.test("installHooks() writes the hooks to the hooks directory of the repository", () => {
+  const cwd = createStagedRepository("main");
+
+  try {
+    const installations = installHooks({
+      cwd,
+      command: "conventional-gitmoji",
+    });
+    const path = `${cwd}/.git/hooks/commit-msg`;
+
+    expect(installations).to.deep.equal([
+      { name: "commit-msg", path, status: "installed" },
+      {
+        name: "prepare-commit-msg",
+        path: `${cwd}/.git/hooks/prepare-commit-msg`,
+        status: "installed",
+      },
+    ]);
+    expect(Deno.readTextFileSync(path)).to.equal(
+      '#!/bin/sh\n# Installed by conventional-gitmoji.\nexec conventional-gitmoji lint "$1"\n',
+    );
+    expect(Deno.statSync(path).mode! & 0o777).to.equal(0o755);
+    expect(installHooks({ cwd })[0].status).to.equal("updated");
+  } finally {
+    Deno.removeSync(cwd, { recursive: true });
+  }
+});
+
+Deno.test("installHooks() writes the hooks to the core.hooksPath directory", () => {
+  const cwd = createStagedRepository("main");
+
+  try {
+    git(cwd, "config", "core.hooksPath", ".githooks");
+    Deno.mkdirSync(`${cwd}/source`);
+
+    const [installation] = installHooks({ cwd: `${cwd}/source` });
+
+    expect(installation.path).to.equal(`${cwd}/.githooks/commit-msg`);
+    expect(installation.status).to.equal("installed");
+  } finally {
+    Deno.removeSync(cwd, { recursive: true });
+  }
+});
+
+Deno.test("installHooks() doesn't overwrite existing hooks", () => {
+  const cwd = createStagedRepository("main");
+
+  try {
+    const path = `${cwd}/.git/hooks/commit-msg`;
+
+    Deno.mkdirSync(`${cwd}/.git/hooks`, { recursive: true });
+    Deno.writeTextFileSync(path, "#!/bin/sh\nexit 0\n");
+
+    const statuses = installHooks({ cwd }).map(({ status }) => status);
+
+    expect(statuses).to.deep.equal(["skipped", "installed"]);
+    expect(Deno.readTextFileSync(path)).to.equal("#!/bin/sh\nexit 0\n");
+  } finally {
+    Deno.removeSync(cwd, { recursive: true });
+  }
+});
+
+Deno.test("installHooks() installs hooks that let the commits made by git through", () => {
+  const cwd = createRepository("main");
+
+  try {
+    installHooks({ cwd, command: HOOK_COMMAND });
+    writeFiles(cwd, { "source/api.ts": "" });
+    git(cwd, "add", "--all");
+    git(cwd, "commit", "--quiet", "-m", "✨ feat: add pagination");
+    git(cwd, "revert", "--quiet", "--no-edit", "HEAD");
+    git(cwd, "checkout", "--quiet", "-b", "fix/empty-input");
+    git(cwd, "commit", "--allow-empty", "-m", "🐛 fix: handle empty input");
+    git(cwd, "commit", "--allow-empty", "--fixup", "HEAD");
+    git(cwd, "commit", "--allow-empty", "--squash", "HEAD~1", "-m", "Trim.");
+    git(cwd, "checkout", "--quiet", "main");
+    git(cwd, "merge", "--quiet", "--no-ff", "--no-edit", "fix/empty-input");
+
+    expect(git(cwd, "log", "--topo-order", "--format=%s").trim().split("\n")).to
+      .deep.equal([
+        "Merge branch 'fix/empty-input'",
+        "squash! 🐛 fix: handle empty input",
+        "fixup! 🐛 fix: handle empty input",
+        "🐛 fix: handle empty input",
+        'Revert "✨ feat: add pagination"',
+        "✨ feat: add pagination",
+      ]);
+  } finally {
+    Deno.removeSync(cwd, { recursive: true });
+  }
+});
+
+Deno.test("installHooks() installs hooks that reject a prefilled message without a subject", () => {
+  const cwd = createRepository("feat/pagination");
+
+  try {
+    installHooks({ cwd, command: HOOK_COMMAND });
+    writeFiles(cwd, { "source/api.ts": "" });
+    git(cwd, "add", "--all");
+
+    expect(() => git(cwd, "commit")).to.throw("[subject-empty]");
+
+    git(cwd, "commit", "--quiet", "-m", "✨ feat: add pagination");
+
+    expect(git(cwd, "log", "--format=%s")).to.equal(
+      "✨ feat: add pagination\n",
+    );
+  } finally {
+    Deno.removeSync(cwd, { recursive: true });
+  }
+});
+
+Deno.test("installHooks() installs hooks that accept the prefilled headers of the gitmoji preset", () => {
+  const cwd = createRepository("perf/cache");
+
+  try {
+    installHooks({ cwd, command: `${HOOK_COMMAND} --config gitmoji.json` });
+    writeFiles(cwd, {
+      "gitmoji.json": '{ "extends": "gitmoji" }',
+      "source/api.ts": "",
+    });
+    git(cwd, "add", "--all");
+    git(
+      cwd,
+      "-c",
+      "core.editor=sed -i.bak -e '1s/$/cache the configuration/'",
+      "commit",
+      "--quiet",
+    );
+
+    expect(git(cwd, "log", "--format=%s")).to.equal(
+      "⚡️ perf: cache the configuration\n",
+    );
+  } finally {
+    Deno.removeSync(cwd, { recursive: true });
+  }
+});
+
+Deno.test("inferCommitType() uses the commit type or alias of the branch name", () => {
+  expect(inferCommitType(CONFIG, { branch: "feat/pagination", files: [] }))
+    .to.equal("feat");
+  expect(inferCommitType(CONFIG, { branch: "Fix/empty-input", files: [] }))
+    .to.equal("fix");
+  expect(inferCommitType(CONFIG, { branch: "release/1.3.0", files: [] }))
+    .to.equal("release");
+  expect(inferCommitType(CONFIG, { branch: "feature/pagination", files: [] }))
+    .to.be.null;
+  expect(inferCommitType(CONFIG, { branch: "docs", files: [] })).to.be.null;
+  expect(inferCommitType(CONFIG, { branch: null, files: [] })).to.be.null;
+});
+
+Deno.test("inferCommitType() uses the staged files when they're all of the same kind", () => {
+  const infer = (...files: string[]) =>
+    inferCommitType(CONFIG, { branch: "main", files });
+
+  expect(infer("README.md", "docs/usage.md")).to.equal("docs");
+  expect(infer("test/api.test.ts", "test/fixtures/api.md")).to.equal("test");
+  expect(infer(".github/workflows/test.yml")).to.equal("ci");
+  expect(infer("README.md", "source/api.ts")).to.be.null;
+  expect(
+    inferCommitType(CONFIG, { branch: "fix/typo", files: ["README.md"] }),
+  ).to.equal("fix");
+});
+
+Deno.test("prefillCommitMessage() writes the header of the inferred commit type", () => {
+  const cwd = createStagedRepository("feat/pagination", ["source/api.ts"]);
+
+  try {
+    const path = `${cwd}/.git/COMMIT_EDITMSG`;
+
+    expect(prefillCommitMessage(path, CONFIG, { cwd })).to.equal("feat");
+    expect(Deno.readTextFileSync(path)).to.equal(
+      "✨ feat: \n\n# Please enter the commit message.\n",
+    );
+  } finally {
+    Deno.removeSync(cwd, { recursive: true });
+  }
+});
+
+Deno.test("prefillCommitMessage() leaves messages that have a source or text as is", () => {
+  const cwd = createStagedRepository("main", ["docs/usage.md"]);
+
+  try {
+    const path = `${cwd}/.git/COMMIT_EDITMSG`;
+
+    expect(prefillCommitMessage(path, CONFIG, { cwd, source: "message" })).to.be
+      .null;
+    expect(Deno.readTextFileSync(path)).to.equal(COMMIT_MESSAGE);
+
+    Deno.writeTextFileSync(path, "Merge branch 'main'\n" + COMMIT_MESSAGE);
+
+    expect(prefillCommitMessage(path, CONFIG, { cwd })).to.be.null;
+
+    Deno.writeTextFileSync(path, COMMIT_MESSAGE);
+
+    expect(prefillCommitMessage(path, CONFIG, { cwd })).to.equal("docs");
+  } finally {
+    Deno.removeSync(cwd, { recursive: true });
+  }
+});
+
+Deno.test("prefillCommitMessage() prefills the message of a verbose commit and keeps its diff", () => {
+  const cwd = createStagedRepository("feat/pagination", ["source/api.ts"]);
+
+  try {
+    const path = `${cwd}/.git/COMMIT_EDITMSG`;
+    const diff = "# ------------------------ >8 ------------------------\n" +
+      "# Do not modify or remove the line above.\n" +
+      "diff --git a/source/api.ts b/source/api.ts\n";
+
+    Deno.writeTextFileSync(path, COMMIT_MESSAGE + diff);
+
+    expect(prefillCommitMessage(path, CONFIG, { cwd })).to.equal("feat");
+    expect(Deno.readTextFileSync(path)).to.equal(
+      "✨ feat: \n\n# Please enter the commit message.\n" + diff,
+    );
+  } finally {
+    Deno.removeSync(cwd, { recursive: true });
+  }
+});
@@ -0,0 +1,47 @@
+import { getJsonLocation, JsonParseError, parseJson } from "../source/json.ts";
+import { expect } from "./dev-dependencies.ts";
+
+const DOCUMENT = `{
+  "types": {
+    "feat": { "title": "Features" }
+  },
+  "order": ["feat", "fix"]
+}`;
+
+Deno.test("parseJson() returns the same value as JSON.parse()", () => {
+  const { value } = parseJson(DOCUMENT);
+
+  expect(value).to.deep.equal(JSON.parse(DOCUMENT));
+});
+
+Deno.test("parseJson() returns the location of each value by its dotted path", () => {
+  const { locations } = parseJson(DOCUMENT);
+
+  expect(locations[""]).to.deep.equal({ offset: 0, line: 1, column: 1 });
+  expect(locations["types.feat.title"]).to.include({ line: 3, column: 24 });
+  expect(locations["order.1"]).to.include({ line: 5, column: 21 });
+});
+
+Deno.test("parseJson() locates the values after escaped newlines and CRLF line endings", () => {
+  const text =
+    '{\r\n  "a": "one\\ntwo",\r\n  "b": [\r\n    1,\n    "\\n"\n  ]\r\n}';
+  const { locations } = parseJson(text);
+
+  for (const [path, location] of Object.entries(locations)) {
+    expect(location, path).to.deep.equal(
+      getJsonLocation(text, location.offset),
+    );
+  }
+
+  expect(locations["b.1"]).to.include({ line: 5, column: 5 });
+});
+
+Deno.test("parseJson() throws a JsonParseError with the location of the syntax error", () => {
+  try {
+    parseJson('{\n  "order": ["feat",]\n}');
+    expect.fail("The document should not be valid");
+  } catch (e) {
+    expect(e).to.be.instanceOf(JsonParseError);
+    expect((e as JsonParseError).location).to.include({ line: 2, column: 20 });
+  }
+});
@@ -0,0 +1,187 @@
+import { formatCommit } from "../source/commit.ts";
+import { Configuration } from "../source/configuration.ts";
+import { lintCommit } from "../source/lint.ts";
+import { PresetName, PRESETS } from "../source/presets/mod.ts";
+import { expect } from "./dev-dependencies.ts";
+
+const config = Configuration.fromFile(
+  "./test/fixtures/configuration/defaults.json",
+);
+
+Deno.test("lintCommit() returns no diagnostics when the commit message is valid", () => {
+  const result = lintCommit("✨ feat(api): add pagination", config);
+
+  expect(result.valid).to.be.true;
+  expect(result.diagnostics).to.be.empty;
+});
+
+Deno.test("lintCommit() accepts the formatted commits of every type and alias of the presets", () => {
+  for (const name of Object.keys(PRESETS) as PresetName[]) {
+    const preset = Configuration.fromPreset(name);
+    const types = Object.keys(preset.types);
+    const aliases = Object.keys(preset.aliases);
+
+    for (const type of [...types, ...aliases]) {
+      const message = formatCommit({ type, subject: "add pagination" }, preset);
+      const result = lintCommit(message, preset);
+
+      expect(result.diagnostics, `${name}: ${message}`).to.be.empty;
+      expect(result.commit.resolution, `${name}: ${message}`).to.equal(
+        aliases.includes(type) ? "alias" : "type",
+      );
+    }
+  }
+});
+
+Deno.test("lintCommit() reports unknown commit types with their location", () => {
+  const result = lintCommit("feta: add pagination", config);
+
+  expect(result.valid).to.be.false;
+  expect(result.diagnostics).to.have.length(1);
+  expect(result.diagnostics[0]).to.include({
+    rule: "type-enum",
+    severity: "error",
+  });
+  expect(result.diagnostics[0].range).to.deep.equal([0, 4]);
+});
+
+Deno.test("lintCommit() reports commit messages without a commit type", () => {
+  const result = lintCommit("add pagination", config);
+
+  expect(result.diagnostics.map((d) => d.rule)).to.deep.equal(["type-enum"]);
+});
+
+Deno.test("lintCommit() reports the properties of Object.prototype as unknown commit types", () => {
+  for (
+    const header of ["constructor: foo", "✨ toString: foo", "__proto__: foo"]
+  ) {
+    const result = lintCommit(header, config);
+
+    expect(result.diagnostics.map((d) => d.rule), header).to.include(
+      "type-enum",
+    );
+  }
+});
+
+Deno.test("lintCommit() reports scopes that aren't configured for the commit type", () => {
+  const valid = lintCommit("build(deps): bump zod", config);
+  const result = lintCommit("build(api): bump zod", config);
+
+  expect(valid.valid).to.be.true;
+  expect(result.diagnostics[0].rule).to.equal("scope-enum");
+  expect(result.diagnostics[0].range).to.deep.equal([6, 9]);
+});
+
+Deno.test("lintCommit() accepts any scope when the commit type has no configured scopes", () => {
+  const result = lintCommit("feat(whatever): add pagination", config);
+
+  expect(result.valid).to.be.true;
+});
+
+Deno.test("lintCommit() reports emojis that don't match the commit type or alias", () => {
+  const typeResult = lintCommit("🐛 feat: add pagination", config);
+  const aliasResult = lintCommit(":sparkles: initial: first commit", config);
+  const validAlias = lintCommit(":tada: initial: first commit", config);
+
+  expect(typeResult.diagnostics[0].rule).to.equal("emoji-match");
+  expect(typeResult.diagnostics[0].range).to.deep.equal([0, 2]);
+  expect(aliasResult.diagnostics[0].rule).to.equal("emoji-match");
+  expect(validAlias.valid).to.be.true;
+});
+
+Deno.test("lintCommit() reports headers without a subject", () => {
+  for (
+    const message of ["✨ feat: ", "feat(api):", "✨ feat:\n\nAdd pagination."]
+  ) {
+    const result = lintCommit(message, config);
+
+    expect(result.valid, message).to.be.false;
+    expect(result.diagnostics.map((d) => d.rule), message).to.deep.equal([
+      "subject-empty",
+    ]);
+  }
+});
+
+Deno.test("lintCommit() ignores the commit messages written by git", () => {
+  for (
+    const message of [
+      "Merge branch 'main' into dev",
+      "Merge pull request #12 from tori/feat/pagination",
+      'Revert "✨ feat(api): add pagination"\n\nThis reverts commit 1a2b3c.',
+      "fixup! ✨ feat(api): add pagination",
+      "squash! ✨ feat(api): add pagination",
+      "amend! ✨ feat(api): add pagination",
+    ]
+  ) {
+    const result = lintCommit(message, config);
+
+    expect(result, message).to.deep.include({ valid: true, ignored: true });
+    expect(result.diagnostics, message).to.be.empty;
+  }
+
+  expect(lintCommit("fixup: add pagination", config).ignored).to.be.false;
+});
+
+Deno.test("lintCommit() only ignores the given patterns", () => {
+  const merge = lintCommit("Merge branch 'main'", config, { ignores: [] });
+  const wip = lintCommit("WIP: add pagination", config, { ignores: [/^WIP/] });
+
+  expect(merge.valid).to.be.false;
+  expect(merge.diagnostics[0].rule).to.equal("type-enum");
+  expect(wip.ignored).to.be.true;
+});
+
+Deno.test("lintCommit() reports headers longer than the configured maximum", () => {
+  const message = "feat: " + "a".repeat(70);
+  const result = lintCommit(message, config, {
+    rules: { "header-max-length": { options: { max: 72 } } },
+  });
+
+  expect(result.diagnostics[0].rule).to.equal("header-max-length");
+  expect(result.diagnostics[0].range).to.deep.equal([72, 76]);
+});
+
+Deno.test("lintCommit() only requires a body when the rule is enabled", () => {
+  const message = "feat: add pagination";
+  const withDefaults = lintCommit(message, config);
+  const result = lintCommit(message, config, {
+    rules: { "body-required": { severity: "warning" } },
+  });
+
+  expect(withDefaults.diagnostics).to.be.empty;
+  expect(result.valid).to.be.true;
+  expect(result.diagnostics[0]).to.include({
+    rule: "body-required",
+    severity: "warning",
+  });
+});
+
+Deno.test("lintCommit() doesn't run rules that are turned off", () => {
+  const result = lintCommit("feta: add pagination", config, {
+    rules: { "type-enum": { severity: "off" } },
+  });
+
+  expect(result.valid).to.be.true;
+});
+
+Deno.test("lintCommit() checks the scopes of commit aliases and scope patterns", () => {
+  const scoped = Configuration.fromFiles(
+    "./test/fixtures/configuration/defaults.json",
+    "./test/fixtures/configuration/scopes.json",
+  );
+
+  expect(lintCommit("🎉 initial(repo): first commit", scoped).valid).to.be.true;
+  expect(lintCommit("🎉 initial(api): first commit", scoped).valid).to.be.false;
+  expect(lintCommit("✨ feat(pkg-core): add api", scoped).valid).to.be.true;
+  expect(lintCommit("✨ feat(core): add api", scoped).diagnostics[0].message)
+    .to.contain("packages (pkg-*)");
+  expect(lintCommit("✨ feat(): add api", scoped).diagnostics).to.deep.equal([
+    {
+      rule: "scope-enum",
+      severity: "error",
+      message: 'Scope "" is not allowed for "feat". Expected one of: api, ' +
+        "packages (pkg-*), apps (/^app-(web|mobile)$/).",
+      range: [0, 17],
+    },
+  ]);
+});
@@ -0,0 +1,80 @@
+import { Configuration } from "../source/configuration.ts";
+import {
+  CONFIGURATION_SCHEMA_FILE_NAME,
+  CONFIGURATION_SCHEMA_ID,
+  CONFIGURATION_SCHEMA_VERSION,
+  createConfigurationJsonSchema,
+} from "../source/schema.ts";
+import { expect } from "./dev-dependencies.ts";
+
+const FIXTURES_DIR_PATH = "./test/fixtures/configuration";
+
+Deno.test("createConfigurationJsonSchema() returns a schema with a versioned $id", () => {
+  const schema = createConfigurationJsonSchema();
+  const manifest = JSON.parse(Deno.readTextFileSync("./package.json"));
+
+  expect(CONFIGURATION_SCHEMA_VERSION).to.equal(manifest.version);
+  expect(schema.$id).to.equal(CONFIGURATION_SCHEMA_ID);
+  expect(schema.$id).to.include(`@${manifest.version}/`);
+});
+
+Deno.test("createConfigurationJsonSchema() uses the descriptions of the Zod schemas", () => {
+  const schema = createConfigurationJsonSchema() as {
+    properties: Record<string, Record<string, Record<string, unknown>>>;
+  };
+  const commitType = schema.properties.types.additionalProperties as {
+    properties: Record<string, { description: string; properties?: unknown }>;
+  };
+
+  expect(commitType.properties.type.description).to.equal(
+    "Unique identifier string for the commit type. Example: `feat`",
+  );
+  expect(commitType.properties.emoji.properties).to.deep.include({
+    code: {
+      type: "string",
+      pattern: "^:\\w+:$",
+      description: "A valid emoji code. Example: `:fire:`.",
+    },
+  });
+});
+
+Deno.test("createConfigurationJsonSchema() describes the structure of scopes", () => {
+  const schema = createConfigurationJsonSchema() as {
+    properties: { scopes: { additionalProperties: Record<string, unknown> } };
+  };
+  const { items } = schema.properties.scopes.additionalProperties as {
+    items: { anyOf: { type: string }[] };
+  };
+
+  expect(items.anyOf.map((option) => option.type)).to.deep.equal([
+    "string",
+    "object",
+  ]);
+});
+
+Deno.test("createConfigurationJsonSchema() returns the same schema as the published file", () => {
+  const schema = createConfigurationJsonSchema();
+  const published = JSON.parse(
+    Deno.readTextFileSync(`./${CONFIGURATION_SCHEMA_FILE_NAME}`),
+  );
+
+  expect(schema, "Run `npm run schema` to update it").to.deep.equal(published);
+});
+
+Deno.test("Configuration.fromLayers() accepts configuration files that reference the JSON Schema", () => {
+  const config = Configuration.fromLayers([
+    {
+      source: "defaults",
+      value: JSON.parse(
+        Deno.readTextFileSync(`${FIXTURES_DIR_PATH}/defaults.json`),
+      ),
+    },
+    {
+      source: "custom",
+      value: { $schema: CONFIGURATION_SCHEMA_ID, fallback: "chore" },
+    },
+  ]);
+
+  expect(config.fallback).to.equal("chore");
+  expect(config).not.to.have.property("$schema");
+});
@@ -1,5 +1,5 @@
 import { expect } from "./dev-dependencies.ts";
-import { Template } from "../source/template.ts";
+import { Template, TemplateRenderError } from "../source/template.ts";
 
 Deno.test("The constructor of the class Template should initialize the template with the provided value", () => {
   const template = new Template("Hello {name}");
@@ -127,3 +127,303 @@ Deno.test("The method template.partialRender() should create a new template inst
 
   expect(result.replacements).to.deep.equal({ last_name: "Unknown" });
 });
+
+Deno.test("The method template.render() should apply filters to the placeholder values", () => {
+  const template = new Template("{subject|capitalize} ({hash|truncate:7})");
+
+  const result = template.render({
+    subject: "add pagination",
+    hash: "4f2a9c81d3e7",
+  });
+
+  expect(result).to.equal("Add pagination (4f2a9c8)");
+});
+
+Deno.test("The method template.render() should apply chained filters from left to right", () => {
+  const template = new Template("{name|trim|uppercase|truncate:3}");
+
+  const result = template.render({ name: "  sam  " });
+
+  expect(result).to.equal("SAM");
+});
+
+Deno.test("The method template.render() should throw an error if a filter doesn't exist", () => {
+  const template = new Template("{name|uwu}");
+
+  expect(template.render.bind(template, { name: "Sam" })).to.throw(Error);
+});
+
+Deno.test("The method template.render() should render optional sections only when the value is present", () => {
+  const template = new Template(
+    "{emoji} {?scope}**{scope}:** {/scope}{subject}",
+  );
+
+  const withScope = template.render({
+    emoji: "✨",
+    scope: "api",
+    subject: "add pagination",
+  });
+  const withoutScope = template.render({
+    emoji: "✨",
+    subject: "add pagination",
+  });
+
+  expect(withScope).to.equal("✨ **api:** add pagination");
+  expect(withoutScope).to.equal("✨ add pagination");
+});
+
+Deno.test("The method template.render() should render inverted sections only when the value is missing", () => {
+  const template = new Template(
+    "{?scope}{scope}{/scope}{!scope}global{/scope}",
+  );
+
+  expect(template.render({ scope: "api" })).to.equal("api");
+  expect(template.render({ scope: "" })).to.equal("global");
+});
+
+Deno.test("The method template.render() should render loop sections once per array item", () => {
+  const template = new Template(
+    "{#commits}- {subject} by {author}\n{/commits}",
+  );
+
+  const result = template.render({
+    author: "Sam",
+    commits: [{ subject: "first" }, { subject: "second", author: "Ariel" }],
+  });
+
+  expect(result).to.equal("- first by Sam\n- second by Ariel\n");
+});
+
+Deno.test("The method template.render() should expose primitive loop items as {.}", () => {
+  const template = new Template("{#tags}[{.|uppercase}]{/tags}");
+
+  const result = template.render({ tags: ["a", "b"] });
+
+  expect(result).to.equal("[A][B]");
+});
+
+Deno.test("The constructor of the class Template should throw an error if the sections are not balanced", () => {
+  expect(() => new Template("{?scope}{scope}")).to.throw(Error);
+  expect(() => new Template("{scope}{/scope}")).to.throw(Error);
+});
+
+Deno.test("The method template.partialRender() should keep the sections whose value wasn't provided", () => {
+  const template = new Template("{emoji} {?scope}({scope}){/scope}");
+
+  const result = template.partialRender({ emoji: "✨" });
+
+  expect(`${result}`).to.equal("✨ {?scope}({scope}){/scope}");
+  expect(result.render({ scope: "api" })).to.equal("✨ (api)");
+});
+
+Deno.test("The method template.render() should resolve dotted placeholders against nested replacements", () => {
+  const template = new Template(
+    "{commit.emoji.character} {commit.type}: {author.name}",
+  );
+
+  const result = template.render({
+    commit: { type: "feat", emoji: { character: "✨" } },
+    author: { name: "Sam" },
+  });
+
+  expect(result).to.equal("✨ feat: Sam");
+});
+
+Deno.test("The method template.render() should merge nested default replacements", () => {
+  const template = new Template("{author.name} <{author.email}>", {
+    author: { name: "Unknown", email: "unknown@example.com" },
+  });
+
+  const result = template.render({ author: { name: "Sam" } });
+
+  expect(result).to.equal("Sam <unknown@example.com>");
+});
+
+Deno.test("The method template.render() should throw an error if a dotted placeholder can't be resolved", () => {
+  const template = new Template("{author.name}");
+
+  expect(template.render.bind(template, { author: {} })).to.throw(Error);
+  expect(template.render.bind(template, { author: "Sam" } as never)).to.throw(
+    Error,
+  );
+});
+
+Deno.test("The method template.render() should not resolve placeholders from Object.prototype", () => {
+  for (const value of ["{constructor}", "{toString}", "{author.constructor}"]) {
+    const template = new Template(value);
+
+    expect(template.render.bind(template, { author: {} } as never), value).to
+      .throw(TemplateRenderError);
+  }
+
+  const filtered = new Template("{name|constructor}");
+
+  expect(filtered.render.bind(filtered, { name: "Sam" })).to.throw(
+    "Unknown template filter",
+  );
+});
+
+Deno.test("The type Template.Replacements should infer nested objects from dotted placeholders", () => {
+  type Replacements = Template.Replacements<"{author.name} {author.email}">;
+
+  const replacements: Replacements = {
+    author: { name: "Sam", email: "sam@example.com" },
+  };
+  // @ts-expect-error: `author` must be an object with `name` and `email`.
+  const invalid: Replacements = { author: { name: "Sam" } };
+
+  expect(replacements.author.name).to.equal("Sam");
+  expect(invalid.author.email).to.be.undefined;
+});
+
+Deno.test("The method template.render() should render escaped braces as literal braces", () => {
+  const template = new Template("{{name}} is replaced by {name}");
+
+  const result = template.render({ name: "Sam" });
+
+  expect(result).to.equal("{name} is replaced by Sam");
+});
+
+Deno.test("The method template.render() should treat braces that aren't valid placeholders as literal text", () => {
+  const template = new Template('```json\n{ "type": "{type}" }\n```\n{} {1st}');
+
+  const result = template.render({ type: "feat" });
+
+  expect(result).to.equal('```json\n{ "type": "feat" }\n```\n{} {1st}');
+});
+
+Deno.test("The method template.render() should keep closing braces that don't close an escape", () => {
+  const json = new Template('{"a":{"b":{x}}}');
+  const code = new Template("function f() { return {a: {value}}}");
+
+  expect(json.render({ x: 1 })).to.equal('{"a":{"b":1}}');
+  expect(code.render({ value: 1 })).to.equal("function f() { return {a: 1}}");
+  expect(new Template("{{{name}}}").render({ name: "Sam" })).to.equal("{Sam}");
+});
+
+Deno.test("The method template.render() should not treat braces in replacement values as placeholders", () => {
+  const template = new Template("{subject}");
+
+  const result = template.render({ subject: "support {name} in {}" });
+
+  expect(result).to.equal("support {name} in {}");
+});
+
+Deno.test("The method template.partialRender() should escape braces in replacement values and keep escaped braces", () => {
+  const template = new Template("{{literal}} {subject} {name}");
+
+  const partial = template.partialRender({ subject: "use {name}" });
+
+  expect(`${partial}`).to.equal("{{literal}} use {{name}} {name}");
+  expect(partial.render({ name: "Sam" })).to.equal("{literal} use {name} Sam");
+});
+
+Deno.test("The method template.partialRender() should keep unbalanced braces in replacement values", () => {
+  const template = new Template('{"a":{"b":{x}}} {y}');
+
+  const partial = template.partialRender({ x: "} {x} {" });
+
+  expect(partial.render({ y: "Sam" })).to.equal('{"a":{"b":} {x} {}} Sam');
+  expect(new Template("{x} {y}").partialRender({ x: "{{x}}" }).render({ y: 1 }))
+    .to.equal("{{x}} 1");
+});
+
+Deno.test("The type Template.Replacements should only include valid placeholder names", () => {
+  type Replacements = Template.Replacements<
+    '{{escaped}} { "json": true } {} {1st} {name} {?scope}{scope}{/scope}'
+  >;
+
+  const replacements: Replacements = { name: "Sam", scope: "api" };
+  // @ts-expect-error: `escaped` is not a placeholder.
+  const invalid: Replacements = { name: "Sam", scope: "api", escaped: "" };
+
+  expect(Object.keys(replacements)).to.deep.equal(["name", "scope"]);
+  expect(invalid).to.have.property("escaped");
+});
+
+Deno.test("The type Template.Replacements should only include ASCII placeholder names", () => {
+  const template = new Template("{é} {✨} {name_1}");
+  type Replacements = Template.Replacements<"{é} {✨} {name_1}">;
+
+  const replacements: Replacements = { name_1: "Sam" };
+  // @ts-expect-error: `é` is not a placeholder.
+  const invalid: Replacements = { name_1: "Sam", é: "" };
+
+  expect(template.render(replacements)).to.equal("{é} {✨} Sam");
+  expect(invalid).to.have.property("é");
+});
+
+Deno.test("The method template.render() should throw a TemplateRenderError when the truncate length isn't a non-negative integer", () => {
+  for (const length of ["abc", "-1", "2.5", ""]) {
+    const template = new Template(`Hi {name|truncate:${length}}!`);
+
+    expect(() => template.render({ name: "Sam" }), length)
+      .to.throw(TemplateRenderError)
+      .with.property("message")
+      .that.includes(`The length "${length}" isn't a non-negative integer.`);
+  }
+
+  expect(new Template("{name|truncate:2}").render({ name: "Sam" })).to.equal(
+    "Sa",
+  );
+  expect(new Template("{name|truncate}").render({ name: "Sam" })).to.equal("");
+});
+
+Deno.test("The method template.render() should throw a TemplateRenderError with the missing placeholders and their positions", () => {
+  const template = new Template("Hi {name}! You are {age|truncate:2}.");
+
+  try {
+    template.render({});
+    expect.fail("The template should not have been rendered");
+  } catch (e) {
+    const error = e as TemplateRenderError;
+
+    expect(error).to.be.instanceof(TemplateRenderError);
+    expect(error.result).to.equal("Hi {name}! You are {age|truncate:2}.");
+    expect(error.missing).to.deep.equal([
+      { name: "name", placeholder: "{name}", index: 3 },
+      { name: "age", placeholder: "{age|truncate:2}", index: 19 },
+    ]);
+  }
+});
+
+Deno.test("The method template.render() should leave missing placeholders as is in lenient mode", () => {
+  const template = new Template("{subject} (#{pr})");
+
+  const result = template.render(
+    { subject: "add pagination" },
+    { mode: "lenient" },
+  );
+
+  expect(result).to.equal("add pagination (#{pr})");
+});
+
+Deno.test("The method template.render() should substitute missing placeholders with the fallback in substitute mode", () => {
+  const template = new Template("{subject} ({author.name})");
+
+  const withString = template.render(
+    { subject: "add pagination" },
+    { mode: "substitute", fallback: "unknown" },
+  );
+  const withFunction = template.render(
+    { subject: "add pagination" },
+    { mode: "substitute", fallback: ({ name }) => `<${name}>` },
+  );
+
+  expect(withString).to.equal("add pagination (unknown)");
+  expect(withFunction).to.equal("add pagination (<author.name>)");
+});
+
+Deno.test("The method template.render() should use the template render options unless they're overridden", () => {
+  const template = new Template("{subject}{pr}", {}, {
+    mode: "substitute",
+    fallback: "-",
+  });
+
+  expect(template.render({ subject: "a" })).to.equal("a-");
+  expect(template.render({ subject: "a" }, { fallback: "+" })).to.equal("a+");
+  expect(template.render.bind(template, {}, { mode: "strict" })).to.throw(
+    TemplateRenderError,
+  );
+  expect(template.partialRender({ subject: "b" }).render({})).to.equal("b-");
+});
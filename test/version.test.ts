@@ -0,0 +1,100 @@
+import { Configuration } from "../source/configuration.ts";
+import {
+  getNextVersion,
+  incrementVersion,
+  parseVersion,
+} from "../source/version.ts";
+import { expect } from "./dev-dependencies.ts";
+
+const config = Configuration.fromFile(
+  "./test/fixtures/configuration/defaults.json",
+);
+
+Deno.test("parseVersion() parses versions with and without a v prefix", () => {
+  expect(parseVersion("1.2.3")).to.deep.equal({
+    major: 1,
+    minor: 2,
+    patch: 3,
+    prerelease: null,
+  });
+  expect(parseVersion("v1.2.3-beta.1+build.5")).to.deep.equal({
+    major: 1,
+    minor: 2,
+    patch: 3,
+    prerelease: "beta.1",
+  });
+});
+
+Deno.test("parseVersion() throws an error when the version isn't valid", () => {
+  expect(parseVersion.bind(null, "1.2")).to.throw(Error);
+});
+
+Deno.test("incrementVersion() promotes pre-release versions that already have the required precedence", () => {
+  const version = parseVersion("2.0.0-beta.1");
+
+  expect(incrementVersion(version, "major")).to.include({ major: 2 });
+  expect(incrementVersion(parseVersion("1.2.3-rc.1"), "minor")).to.include({
+    minor: 3,
+    patch: 0,
+  });
+});
+
+Deno.test("getNextVersion() applies the highest release type required by the commits", () => {
+  const result = getNextVersion(
+    ["⚡ perf: cache lookups", "✨ feat: add pagination", "📚 docs: typo"],
+    "1.2.3",
+    config,
+  );
+
+  expect(result.next).to.equal("1.3.0");
+  expect(result.release).to.equal("minor");
+  expect(result.reason?.commit.header).to.equal("✨ feat: add pagination");
+});
+
+Deno.test("getNextVersion() treats breaking changes as major releases", () => {
+  const byMark = getNextVersion(["perf!: drop cache"], "1.2.3", config);
+  const byFooter = getNextVersion(
+    ["perf: drop cache\n\nBREAKING CHANGE: the cache is gone"],
+    "1.2.3",
+    config,
+  );
+
+  expect(byMark.next).to.equal("2.0.0");
+  expect(byFooter.next).to.equal("2.0.0");
+  expect(byFooter.reason?.description).to.contain("breaking change");
+});
+
+Deno.test("getNextVersion() uses the semver of commit aliases over the one of their commit types", () => {
+  const initial = getNextVersion(["🎉 initial: first commit"], "1.0.0", config);
+  const breaking = getNextVersion(["breaking: new api"], "1.0.0", config);
+
+  expect(initial.release).to.be.null;
+  expect(initial.next).to.equal("1.0.0");
+  expect(breaking.next).to.equal("2.0.0");
+});
+
+Deno.test("getNextVersion() applies the pre-1.0 rules when the major version is 0", () => {
+  const major = getNextVersion(["feat!: new api"], "0.4.1", config);
+  const minor = getNextVersion(["feat: add pagination"], "0.4.1", config);
+
+  expect(major.next).to.equal("0.5.0");
+  expect(minor.next).to.equal("0.4.2");
+});
+
+Deno.test("getNextVersion() keeps the current version when no commit requires a release", () => {
+  const result = getNextVersion(["docs: typo", "test: more"], "v1.2.3", config);
+
+  expect(result.next).to.equal("1.2.3");
+  expect(result.release).to.be.null;
+  expect(result.reason).to.be.null;
+});
+
+Deno.test("getNextVersion() treats the properties of Object.prototype as unknown commit types", () => {
+  const result = getNextVersion(
+    ["valueOf: foo", "constructor: foo", "__proto__: foo"],
+    "1.0.0",
+    config,
+  );
+
+  expect(result.next).to.equal("1.0.0");
+});